@@ -0,0 +1,110 @@
+/**
+ * Parsed response body together with the raw response metadata
+ */
+export interface ApiResponse<T> {
+  /**
+   * The parsed response body
+   */
+  data: T;
+
+  /**
+   * HTTP status code
+   */
+  status: number;
+
+  /**
+   * Response headers
+   */
+  headers: Headers;
+
+  /**
+   * Request id assigned by the server, useful for support tickets
+   */
+  requestId?: string;
+
+  /**
+   * Time from sending the request until the body was parsed, including retries
+   */
+  durationMs: number;
+}
+
+/**
+ * Result of a completed request, before it is exposed as an ApiResponse
+ */
+export interface CompletedRequest<T> {
+  data: T;
+  response: Response;
+  durationMs: number;
+}
+
+/**
+ * Promise for a parsed response body that also gives access to the raw response
+ *
+ * Awaiting it resolves to the parsed body, `withResponse()` resolves to the body
+ * together with the status, headers, request id and duration.
+ *
+ * @example
+ * const { data, status, requestId } = await api.domains.list().withResponse();
+ */
+export class ApiPromise<T> extends Promise<T> {
+  constructor(private readonly completed: Promise<CompletedRequest<T>>) {
+    super((resolve, reject) => {
+      completed.then(({ data }) => resolve(data), reject);
+    });
+  }
+
+  /**
+   * Create an ApiPromise for a request that is made once some asynchronous preparation is done
+   *
+   * @param prepared Promise for the value the request needs
+   * @param request Function starting the request with the prepared value
+   * @returns An ApiPromise for the eventual request
+   */
+  public static defer<P, T>(
+    prepared: Promise<P>,
+    request: (value: P) => ApiPromise<T>
+  ): ApiPromise<T> {
+    return new ApiPromise(prepared.then((value) => request(value).settled()));
+  }
+
+  // Derived promises from then/catch/finally are plain promises
+  static get [Symbol.species]() {
+    return Promise;
+  }
+
+  /**
+   * Resolve to the parsed body together with the response metadata
+   *
+   * @returns Promise resolving to the API response
+   */
+  public withResponse(): Promise<ApiResponse<T>> {
+    return this.settled().then(({ data, response, durationMs }) => ({
+      data,
+      status: response.status,
+      headers: response.headers,
+      requestId: response.headers.get('X-Request-Id') ?? undefined,
+      durationMs,
+    }));
+  }
+
+  /**
+   * Transform the parsed body while keeping the response metadata
+   *
+   * @param transform Function applied to the parsed body
+   * @returns A new ApiPromise for the transformed body
+   */
+  public map<U>(transform: (data: T) => U): ApiPromise<U> {
+    return new ApiPromise(
+      this.settled().then((completed) => ({ ...completed, data: transform(completed.data) }))
+    );
+  }
+
+  /**
+   * Hand out the completed request, leaving its failures to the caller instead of this promise
+   */
+  private settled(): Promise<CompletedRequest<T>> {
+    this.catch(() => undefined);
+
+    return this.completed;
+  }
+}
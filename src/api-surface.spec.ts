@@ -110,6 +110,180 @@ describe('public SDK surface', () => {
   });
 });
 
+describe('per-call options', () => {
+  it('passes headers and signals through endpoint methods', async () => {
+    const api = Lettermint.api('api-token');
+    const controller = new AbortController();
+
+    await api.domains.retrieve('domain-1', {
+      headers: { 'X-Request-Id': 'req-1' },
+      signal: controller.signal,
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.lettermint.co/v1/domains/domain-1',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'X-Request-Id': 'req-1' }),
+        signal: expect.any(AbortSignal),
+      })
+    );
+  });
+
+  it('passes options alongside query parameters', async () => {
+    const api = Lettermint.api('api-token');
+
+    await api.webhooks.deliveries('webhook-1', { status: 'failed' }, { headers: { 'X-A': 'b' } });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.lettermint.co/v1/webhooks/webhook-1/deliveries?status=failed',
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-A': 'b' }) })
+    );
+  });
+});
+
+describe('withResponse', () => {
+  const response = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'X-Request-Id': 'req_abc', 'X-RateLimit-Remaining': '59' },
+    });
+
+  it('exposes the response metadata of api endpoint calls', async () => {
+    mockFetch.mockResolvedValueOnce(response({ id: 'domain-1' }));
+    const api = Lettermint.api('api-token');
+
+    const result = await api.domains.retrieve('domain-1').withResponse();
+
+    expect(result).toEqual({
+      data: { id: 'domain-1' },
+      status: 200,
+      headers: expect.any(Headers),
+      requestId: 'req_abc',
+      durationMs: expect.any(Number),
+    });
+    expect(result.headers.get('X-RateLimit-Remaining')).toBe('59');
+  });
+
+  it('exposes the response metadata of sends and batch sends', async () => {
+    mockFetch
+      .mockResolvedValueOnce(response({ message_id: 'msg_1', status: 'queued' }, 202))
+      .mockResolvedValueOnce(response([{ message_id: 'msg_2', status: 'queued' }], 202));
+    const email = Lettermint.email('sending-token');
+
+    const sent = await email
+      .from('from@example.com')
+      .to('to@example.com')
+      .subject('Hello')
+      .send()
+      .withResponse();
+    const batch = await email
+      .sendBatch([{ from: 'from@example.com', to: ['to@example.com'], subject: 'Hello' }])
+      .withResponse();
+
+    expect(sent).toMatchObject({
+      data: { message_id: 'msg_1' },
+      status: 202,
+      requestId: 'req_abc',
+    });
+    expect(batch).toMatchObject({ data: [{ message_id: 'msg_2' }], status: 202 });
+  });
+
+  it('keeps the metadata of transformed bodies', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('pong\n', { status: 200 }));
+
+    await expect(Lettermint.api('api-token').ping().withResponse()).resolves.toMatchObject({
+      data: 'pong',
+      status: 200,
+    });
+  });
+
+  it('still resolves to the parsed body when awaited directly', async () => {
+    mockFetch.mockResolvedValueOnce(response({ id: 'domain-1' }));
+
+    await expect(Lettermint.api('api-token').domains.retrieve('domain-1')).resolves.toEqual({
+      id: 'domain-1',
+    });
+  });
+
+  it('leaves failures to withResponse when only the metadata is requested', async () => {
+    mockFetch.mockResolvedValueOnce(response({ message: 'Not found' }, 404));
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      await expect(
+        Lettermint.api('api-token').domains.retrieve('missing').withResponse()
+      ).rejects.toMatchObject({ statusCode: 404 });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+});
+
+describe('custom transport', () => {
+  it('sends email requests through the configured fetch and dispatcher', async () => {
+    const transport = jest.fn().mockResolvedValue({ ok: true, text: async () => 'pong' });
+    const dispatcher = { name: 'proxy-agent' };
+    const email = Lettermint.email('sending-token', { fetch: transport, dispatcher });
+
+    await email.ping();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(transport).toHaveBeenCalledWith(
+      'https://api.lettermint.co/v1/ping',
+      expect.objectContaining({
+        method: 'GET',
+        dispatcher,
+        headers: expect.objectContaining({ 'x-lettermint-token': 'sending-token' }),
+      })
+    );
+  });
+
+  it('sends api requests through the configured fetch', async () => {
+    const transport = jest.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+    const api = Lettermint.api('api-token', { fetch: transport });
+
+    await api.team.retrieve();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(transport).toHaveBeenCalledWith(
+      'https://api.lettermint.co/v1/team',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer api-token' }),
+      })
+    );
+    expect(transport.mock.calls[0][1]).not.toHaveProperty('dispatcher');
+  });
+});
+
+describe('middleware', () => {
+  it('runs middleware registered on the api client for every endpoint group', async () => {
+    const paths: string[] = [];
+    const api = Lettermint.api('api-token').use({
+      onRequest: (context) => {
+        paths.push(`${context.method} ${context.path}`);
+      },
+    });
+
+    await api.domains.list();
+    await api.webhooks.test('webhook-1');
+
+    expect(paths).toEqual(['GET /domains', 'POST /webhooks/webhook-1/test']);
+  });
+
+  it('runs middleware passed to the email client configuration', async () => {
+    const onRequest = jest.fn();
+    const email = Lettermint.email('sending-token', { middleware: [{ onRequest }] });
+
+    await email.from('from@example.com').to('to@example.com').subject('Hello').send();
+
+    expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ path: '/send' }));
+  });
+});
+
 describe('api endpoint coverage', () => {
   const documentedMethods = {
     'domain.index': 'domains.list',
@@ -0,0 +1,203 @@
+import { Lettermint } from './lettermint';
+import { ServerError } from './utils/errors';
+
+const mockFetch = jest.fn();
+
+const items = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `user-${index}`,
+    email: {
+      from: 'sender@example.com',
+      to: [`user${index}@example.com`],
+      subject: 'Hello',
+      text: 'Hi',
+    },
+  }));
+
+const batchResponse = (init: RequestInit) =>
+  new Response(
+    JSON.stringify(
+      JSON.parse(init.body as string).map((email: { to: string[] }) => ({
+        message_id: `msg-${email.to[0]}`,
+        status: 'queued',
+      }))
+    ),
+    { status: 202 }
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  mockFetch.mockImplementation(async (_url: string, init: RequestInit) => batchResponse(init));
+});
+
+describe('sendBulk', () => {
+  it('should split items into chunks of at most 500 and correlate the results', async () => {
+    const email = Lettermint.email('sending-token');
+
+    const result = await email.sendBulk(items(1200), { idempotencyKey: 'job-1' });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).length)).toEqual([
+      500, 500, 200,
+    ]);
+    const keys = mockFetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(3);
+    for (const key of keys) {
+      expect(key).toMatch(/^job-1-[0-9a-f]{32}$/);
+    }
+    expect(result.sent).toBe(1200);
+    expect(result.failed).toBe(0);
+    expect(result.results[742]).toEqual({
+      id: 'user-742',
+      ok: true,
+      response: { message_id: 'msg-user742@example.com', status: 'queued' },
+    });
+  });
+
+  it('should limit the number of requests in flight', async () => {
+    const email = Lettermint.email('sending-token');
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return batchResponse(init);
+    });
+
+    const onChunk = jest.fn();
+    const result = await email.sendBulk(items(10), { chunkSize: 2, concurrency: 2, onChunk });
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+    expect(onChunk).toHaveBeenCalledTimes(5);
+    expect(result.results.map((item) => item.id)).toEqual(items(10).map((item) => item.id));
+  });
+
+  it('should report failed chunks without failing the whole job', async () => {
+    const email = Lettermint.email('sending-token');
+
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) =>
+      JSON.parse(init.body as string)[0].to[0] === 'user2@example.com'
+        ? new Response('{"message":"Oops"}', { status: 500, statusText: 'Internal Server Error' })
+        : batchResponse(init)
+    );
+
+    const result = await email.sendBulk(items(6), { chunkSize: 2, retry: false });
+
+    expect(result.sent).toBe(4);
+    expect(result.failed).toBe(2);
+    expect(result.results.filter((item) => !item.ok)).toEqual([
+      { id: 'user-2', ok: false, error: expect.any(ServerError) },
+      { id: 'user-3', ok: false, error: expect.any(ServerError) },
+    ]);
+  });
+
+  it('should retry chunks with the client retry policy', async () => {
+    const email = Lettermint.email('sending-token', {
+      retry: { baseDelay: 0, jitter: false },
+    });
+
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    const result = await email.sendBulk(items(3));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.sent).toBe(3);
+  });
+
+  it('should retry chunks without a client retry policy', async () => {
+    const email = Lettermint.email('sending-token');
+
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    const result = await email.sendBulk(items(3), { retry: { baseDelay: 0 } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.sent).toBe(3);
+  });
+
+  it('should retry network failures and give up after the last attempt', async () => {
+    const email = Lettermint.email('sending-token');
+
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    const result = await email.sendBulk(items(3), { retry: { maxAttempts: 2, baseDelay: 0 } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.failed).toBe(3);
+  });
+
+  it('should not retry chunks that fail permanently', async () => {
+    const email = Lettermint.email('sending-token');
+
+    mockFetch.mockResolvedValueOnce(new Response('{"message":"Invalid"}', { status: 422 }));
+
+    const result = await email.sendBulk(items(3), { retry: { baseDelay: 0 } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.failed).toBe(3);
+  });
+
+  it('should not retry chunks when retry is disabled', async () => {
+    const email = Lettermint.email('sending-token');
+
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    const result = await email.sendBulk(items(3), { retry: false });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.failed).toBe(3);
+  });
+
+  it('should derive chunk keys from the item ids rather than the chunk position', async () => {
+    const email = Lettermint.email('sending-token');
+    const keysOf = () => mockFetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+
+    await email.sendBulk(items(4), { chunkSize: 2, idempotencyKey: 'job-1' });
+    const [, secondChunk] = keysOf();
+    mockFetch.mockClear();
+
+    await email.sendBulk(items(4).slice(2), { chunkSize: 2, idempotencyKey: 'job-1' });
+
+    expect(keysOf()).toEqual([secondChunk]);
+  });
+
+  it('should keep sending when onChunk throws', async () => {
+    const email = Lettermint.email('sending-token');
+    const onChunk = jest.fn(() => {
+      throw new Error('Progress bar broke');
+    });
+
+    const result = await email.sendBulk(items(6), { chunkSize: 2, concurrency: 1, onChunk });
+
+    expect(onChunk).toHaveBeenCalledTimes(3);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.sent).toBe(6);
+  });
+
+  it.each([0, -1, Number.NaN])('should reject a concurrency of %p', async (concurrency) => {
+    const email = Lettermint.email('sending-token');
+
+    await expect(email.sendBulk(items(2), { concurrency })).rejects.toThrow(RangeError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should flag responses that do not match the chunk', async () => {
+    const email = Lettermint.email('sending-token');
+
+    mockFetch.mockResolvedValueOnce(new Response('[]', { status: 202 }));
+
+    const result = await email.sendBulk(items(2));
+
+    expect(result.failed).toBe(2);
+    expect(result.results[0]).toMatchObject({
+      ok: false,
+      error: { message: 'Batch response has 0 entries for 2 emails' },
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { createHash, randomUUID } from 'node:crypto';
+import type { ApiPromise } from './api-promise';
+import type { RequestOptions, RetryConfig } from './client';
+import type { SendBatchMailRequest, SendBatchMailResponse, SendMailResponse } from './types';
+import { HttpRequestError, LettermintError, RateLimitError, TimeoutError } from './utils/errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  backoffDelay,
+  isNetworkError,
+  sleep,
+} from './utils/retry';
+import { MAX_BATCH_SIZE } from './validation';
+
+export type BatchEmail = SendBatchMailRequest[number];
+
+/**
+ * An email of a bulk send, identified by the caller's own id
+ */
+export interface BulkItem {
+  id: string;
+  email: BatchEmail;
+}
+
+/**
+ * Outcome of a single email of a bulk send
+ */
+export type BulkItemResult =
+  | { id: string; ok: true; response: SendMailResponse }
+  | { id: string; ok: false; error: unknown };
+
+/**
+ * Outcome of a bulk send, with a result per item in input order
+ */
+export interface BulkSendResult {
+  results: BulkItemResult[];
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Options for bulk sends
+ */
+export interface BulkSendOptions extends RequestOptions {
+  /**
+   * Number of emails per batch request (defaults to and is capped at 500)
+   */
+  chunkSize?: number;
+
+  /**
+   * Number of batch requests in flight at once (defaults to 4, at least 1)
+   */
+  concurrency?: number;
+
+  /**
+   * Prefix for the idempotency key of every chunk (defaults to a random id)
+   *
+   * The key of a chunk is this prefix plus a hash of the ids of its items, so re-running a
+   * job with the same prefix, items and chunk size does not send chunks twice.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Retry policy for failed chunks (enabled with the default policy unless set to false)
+   *
+   * Attempts multiply with the client `retry` policy, so configure retries in one place.
+   */
+  retry?: boolean | RetryConfig;
+
+  /**
+   * Called after every chunk, e.g. to report progress
+   *
+   * Errors thrown by the callback are ignored, so they cannot interrupt the other chunks.
+   */
+  onChunk?: (results: BulkItemResult[]) => void;
+}
+
+type BatchSender = (
+  payload: SendBatchMailRequest,
+  options: RequestOptions
+) => ApiPromise<SendBatchMailResponse>;
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Send any number of emails as batch requests of at most 500 emails
+ *
+ * Every chunk carries its own idempotency key, so transient failures are retried
+ * safely with backoff. A chunk that still fails marks only its own items as failed.
+ *
+ * @param send Function sending a single batch request
+ * @param items The emails to send
+ * @param options Bulk send options
+ * @returns The result of every item, in input order
+ * @throws {RangeError} When the concurrency is below 1
+ */
+export async function sendBulk(
+  send: BatchSender,
+  items: BulkItem[],
+  options: BulkSendOptions = {}
+): Promise<BulkSendResult> {
+  const {
+    chunkSize,
+    concurrency = DEFAULT_CONCURRENCY,
+    idempotencyKey,
+    onChunk,
+    retry = true,
+    ...requestOptions
+  } = options;
+
+  if (!(concurrency >= 1)) {
+    throw new RangeError(`The bulk send concurrency must be at least 1, got ${concurrency}`);
+  }
+
+  const size = Math.max(1, Math.min(chunkSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE));
+  const keyPrefix = idempotencyKey ?? randomUUID();
+  const policy = retry ? { ...DEFAULT_RETRY_POLICY, ...(retry === true ? {} : retry) } : undefined;
+  const chunks: BulkItem[][] = [];
+
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+
+  const results: BulkItemResult[][] = new Array(chunks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      const chunk = chunks[index];
+
+      results[index] = await sendChunk(
+        send,
+        chunk,
+        {
+          ...requestOptions,
+          headers: { ...requestOptions.headers, 'Idempotency-Key': chunkKey(keyPrefix, chunk) },
+        },
+        policy
+      );
+
+      try {
+        onChunk?.(results[index]);
+      } catch {
+        // A failing progress callback must not stop the send
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.floor(concurrency), chunks.length) }, worker)
+  );
+
+  const flattened = results.flat();
+  const sent = flattened.filter((result) => result.ok).length;
+
+  return { results: flattened, sent, failed: flattened.length - sent };
+}
+
+/**
+ * Derive the idempotency key of a chunk from its contents rather than its position
+ */
+function chunkKey(prefix: string, chunk: BulkItem[]): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(chunk.map((item) => item.id)))
+    .digest('hex');
+
+  return `${prefix}-${hash.slice(0, 32)}`;
+}
+
+async function sendChunk(
+  send: BatchSender,
+  chunk: BulkItem[],
+  options: RequestOptions,
+  policy?: RetryPolicy
+): Promise<BulkItemResult[]> {
+  const fail = (error: unknown) =>
+    chunk.map((item) => ({ id: item.id, ok: false as const, error }));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptChunk(send, chunk, options);
+    } catch (error) {
+      const delay =
+        policy && attempt < policy.maxAttempts ? retryDelay(policy, error, attempt) : undefined;
+
+      if (delay === undefined) {
+        return fail(error);
+      }
+
+      try {
+        await sleep(delay, options.signal);
+      } catch {
+        // Cancelled while waiting, so report the failure of the last attempt
+        return fail(error);
+      }
+    }
+  }
+}
+
+/**
+ * Compute the delay before retrying a failed chunk, or undefined when it should not be retried
+ */
+function retryDelay(policy: RetryPolicy, error: unknown, attempt: number): number | undefined {
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return error.retryAfter <= policy.maxDelay ? error.retryAfter : undefined;
+  }
+
+  const transient =
+    error instanceof HttpRequestError
+      ? policy.retryableStatusCodes.includes(error.statusCode)
+      : error instanceof TimeoutError || isNetworkError(error);
+
+  return transient ? backoffDelay(policy, attempt) : undefined;
+}
+
+async function attemptChunk(
+  send: BatchSender,
+  chunk: BulkItem[],
+  options: RequestOptions
+): Promise<BulkItemResult[]> {
+  const responses = await send(
+    chunk.map((item) => item.email),
+    options
+  );
+
+  if (!Array.isArray(responses) || responses.length !== chunk.length) {
+    throw new LettermintError(
+      `Batch response has ${Array.isArray(responses) ? responses.length : 0} entries for ${chunk.length} emails`
+    );
+  }
+
+  return chunk.map((item, index) => ({ id: item.id, ok: true, response: responses[index] }));
+}
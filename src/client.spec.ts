@@ -1,4 +1,15 @@
 import { LettermintClient } from './client';
+import {
+  AuthenticationError,
+  ConflictError,
+  HttpRequestError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from './utils/errors';
 
 const mockFetch = jest.fn();
 
@@ -199,7 +210,8 @@ describe('LettermintClient', () => {
       ok: false,
       status: 404,
       statusText: 'Not Found',
-      json: async () => ({ message: 'Resource not found' }),
+      headers: new Headers(),
+      text: async () => JSON.stringify({ message: 'Resource not found' }),
     } as Response);
 
     await expect(client.get('/not-found')).rejects.toThrow('HTTP error 404 Not Found');
@@ -210,7 +222,9 @@ describe('LettermintClient', () => {
       ok: false,
       status: 422,
       statusText: 'Unprocessable Entity',
-      json: async () => ({ error: 'DailyLimitExceeded', message: 'Daily limit exceeded' }),
+      headers: new Headers(),
+      text: async () =>
+        JSON.stringify({ error: 'DailyLimitExceeded', message: 'Daily limit exceeded' }),
     } as Response);
 
     try {
@@ -235,7 +249,9 @@ describe('LettermintClient', () => {
       ok: false,
       status: 400,
       statusText: 'Bad Request',
-      json: async () => ({ error: 'InvalidRequest', message: 'Invalid request parameters' }),
+      headers: new Headers(),
+      text: async () =>
+        JSON.stringify({ error: 'InvalidRequest', message: 'Invalid request parameters' }),
     } as Response);
 
     try {
@@ -260,6 +276,7 @@ describe('LettermintClient', () => {
       signal: {},
     };
 
+    const originalAbortController = global.AbortController;
     // @ts-expect-error - Mock implementation
     global.AbortController = jest.fn(() => abortControllerMock);
 
@@ -268,6 +285,678 @@ describe('LettermintClient', () => {
     abortError.name = 'AbortError';
     mockFetch.mockRejectedValueOnce(abortError);
 
-    await expect(client.get('/timeout')).rejects.toThrow('Request timeout after 30000ms');
+    try {
+      await expect(client.get('/timeout')).rejects.toThrow('Request timeout after 30000ms');
+    } finally {
+      global.AbortController = originalAbortController;
+    }
+  });
+
+  it('should handle timeouts reported as DOMException', async () => {
+    mockFetch.mockRejectedValueOnce(new DOMException('This operation was aborted', 'AbortError'));
+
+    await expect(client.get('/timeout')).rejects.toThrow(TimeoutError);
+  });
+
+  describe('retries', () => {
+    const retry = { maxAttempts: 3, baseDelay: 0, jitter: false };
+
+    const failure = (status: number, headers: Record<string, string> = {}) =>
+      ({
+        ok: false,
+        status,
+        statusText: 'Service Unavailable',
+        headers: new Headers(headers),
+        text: async () => JSON.stringify({ error: 'Unavailable' }),
+      }) as Response;
+
+    it('should retry retryable status codes until the request succeeds', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      mockFetch
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(502))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ok: 1 }) } as Response);
+
+      await expect(retryingClient.get('/test')).resolves.toEqual({ ok: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should release the body of responses that are retried', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      const unavailable = new Response('Unavailable', { status: 503 });
+      const cancel = jest.spyOn(unavailable.body as ReadableStream, 'cancel');
+      mockFetch
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await retryingClient.get('/test');
+
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should expose the attempt count when retries are exhausted', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      mockFetch.mockResolvedValue(failure(503));
+
+      await expect(retryingClient.get('/test')).rejects.toMatchObject({
+        name: 'ServerError',
+        statusCode: 503,
+        attempts: 3,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry network errors and timeouts', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockRejectedValueOnce(abortError)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await retryingClient.get('/test');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry network errors reported through the error cause', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      const cause = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      mockFetch
+        .mockRejectedValueOnce(Object.assign(new TypeError('terminated'), { cause }))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await retryingClient.get('/test');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry TypeErrors that are not network failures', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+
+      await expect(
+        retryingClient.post(
+          '/send',
+          { count: BigInt(1) },
+          { headers: { 'Idempotency-Key': 'key-1' } }
+        )
+      ).rejects.toThrow(TypeError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      mockFetch.mockResolvedValueOnce(failure(404));
+
+      await expect(retryingClient.get('/test')).rejects.toMatchObject({ attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry POST requests without an idempotency key', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      mockFetch.mockResolvedValue(failure(503));
+
+      await expect(retryingClient.post('/send', {})).rejects.toMatchObject({ attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry POST requests that carry an idempotency key', async () => {
+      const retryingClient = new LettermintClient({ apiToken, retry });
+      mockFetch
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await retryingClient.post('/send', {}, { headers: { 'Idempotency-Key': 'key-1' } });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honor the Retry-After header', async () => {
+      jest.useFakeTimers();
+
+      try {
+        const retryingClient = new LettermintClient({ apiToken, retry });
+        mockFetch
+          .mockResolvedValueOnce(failure(429, { 'Retry-After': '2' }))
+          .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+        const request = retryingClient.get('/test');
+
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        await request;
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      const retryingClient = new LettermintClient({
+        apiToken,
+        retry: { ...retry, maxDelay: 1000 },
+      });
+      mockFetch.mockResolvedValueOnce(failure(429, { 'Retry-After': '60' }));
+
+      await expect(retryingClient.get('/test')).rejects.toMatchObject({ statusCode: 429 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should throw a RateLimitError with the parsed rate limit headers', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({
+          'X-RateLimit-Limit': '60',
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': '1893456000',
+          'Retry-After': '30',
+        }),
+        text: async () => JSON.stringify({ message: 'Too Many Attempts.' }),
+      } as Response);
+
+      try {
+        await client.get('/test');
+        fail('Expected RateLimitError to be thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toMatchObject({
+          statusCode: 429,
+          limit: 60,
+          remaining: 0,
+          reset: new Date(1893456000 * 1000),
+          retryAfter: 30000,
+          message: 'Rate limit exceeded, retry after 30s',
+        });
+      }
+    });
+
+    it('should queue requests beyond the configured burst', async () => {
+      jest.useFakeTimers();
+
+      try {
+        const throttledClient = new LettermintClient({
+          apiToken,
+          rateLimit: { requestsPerSecond: 2, burst: 2 },
+        });
+
+        const requests = [1, 2, 3].map(() => throttledClient.get('/test'));
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+
+        await jest.advanceTimersByTimeAsync(500);
+        await Promise.all(requests);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it.each([
+      { requestsPerSecond: 0 },
+      { requestsPerSecond: -1 },
+      { requestsPerSecond: Number.NaN },
+      { requestsPerSecond: 2, burst: 0 },
+    ])('should reject the rate limit %p', (rateLimit) => {
+      expect(() => new LettermintClient({ apiToken, rateLimit })).toThrow(RangeError);
+    });
+  });
+
+  describe('middleware', () => {
+    it('should run onRequest in order and send the mutated request', async () => {
+      const calls: string[] = [];
+      const middlewareClient = new LettermintClient({
+        apiToken,
+        middleware: [
+          {
+            onRequest: (context) => {
+              calls.push('first');
+              context.headers['X-Correlation-Id'] = 'corr-1';
+            },
+          },
+          {
+            onRequest: (context) => {
+              calls.push('second');
+              context.body = {
+                ...(context.body as Record<string, unknown>),
+                metadata: { env: 'test' },
+              };
+            },
+          },
+        ],
+      });
+
+      await middlewareClient.post('/send', { subject: 'Hi' });
+
+      expect(calls).toEqual(['first', 'second']);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.lettermint.co/v1/send',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Correlation-Id': 'corr-1' }),
+          body: JSON.stringify({ subject: 'Hi', metadata: { env: 'test' } }),
+        })
+      );
+    });
+
+    it('should short-circuit requests when onRequest returns a response', async () => {
+      client.use({
+        onRequest: () => new Response(JSON.stringify({ cached: true }), { status: 200 }),
+      });
+
+      await expect(client.get('/team')).resolves.toEqual({ cached: true });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should pass responses to onResponse', async () => {
+      const onResponse = jest.fn();
+      client.use({ onResponse });
+
+      await client.get('/team');
+
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ ok: true }),
+        expect.objectContaining({ method: 'GET', path: '/team', attempt: 1 })
+      );
+    });
+
+    it('should retry when a middleware asks for it', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Headers(),
+          text: async () => JSON.stringify({}),
+        } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ done: true }) } as Response);
+      client.use({
+        onResponse: (response, context) =>
+          !response.ok && context.attempt < 2 ? { retry: true } : undefined,
+      });
+
+      await expect(client.get('/team')).resolves.toEqual({ done: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop retrying at maxAttempts when a middleware always asks for it', async () => {
+      const retryingClient = new LettermintClient({
+        apiToken,
+        retry: { maxAttempts: 4, baseDelay: 0, jitter: false },
+      });
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: new Headers(),
+        text: async () => JSON.stringify({}),
+      } as Response);
+      retryingClient.use({ onResponse: () => ({ retry: true }), onError: () => ({ retry: true }) });
+
+      await expect(retryingClient.post('/send', {})).rejects.toMatchObject({
+        statusCode: 503,
+        attempts: 4,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should back off between retries requested by middleware', async () => {
+      jest.useFakeTimers();
+      const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+
+      try {
+        mockFetch.mockRejectedValue(new Error('connection refused'));
+        client.use({ onError: () => ({ retry: true }) });
+
+        const request = client.get('/team');
+        const rejected = expect(request).rejects.toMatchObject({ message: 'connection refused' });
+
+        await jest.advanceTimersByTimeAsync(499);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        await rejected;
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      } finally {
+        random.mockRestore();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should let onError observe and recover from failures', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        headers: new Headers(),
+        text: async () => JSON.stringify({ message: 'Resource not found' }),
+      } as Response);
+      const observed: unknown[] = [];
+      client
+        .use({
+          onError: (error) => {
+            observed.push(error);
+          },
+        })
+        .use({ onError: () => new Response(JSON.stringify({ fallback: true })) });
+
+      await expect(client.get('/missing')).resolves.toEqual({ fallback: true });
+      expect(observed).toEqual([expect.objectContaining({ statusCode: 404 })]);
+    });
+  });
+
+  describe('per-call options', () => {
+    const hangingFetch = (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      });
+
+    it('should apply a per-call timeout', async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      await expect(client.get('/slow', { timeout: 10 })).rejects.toThrow(
+        'Request timeout after 10ms'
+      );
+    });
+
+    it('should cancel the request when the external signal aborts', async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+      const controller = new AbortController();
+      const reason = new Error('client went away');
+
+      const request = client.get('/slow', { signal: controller.signal });
+      controller.abort(reason);
+
+      await expect(request).rejects.toBe(reason);
+    });
+
+    it('should not send a request when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.get('/test', { signal: controller.signal })).rejects.toHaveProperty(
+        'name',
+        'AbortError'
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying once the signal aborts', async () => {
+      const retryingClient = new LettermintClient({
+        apiToken,
+        retry: { baseDelay: 10000, jitter: false },
+      });
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+      const controller = new AbortController();
+
+      const request = retryingClient.get('/test', { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(request).rejects.toHaveProperty('name', 'AbortError');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    it('should pass aborts during the retry backoff through the failure path', async () => {
+      const onError = jest.fn();
+      const retryingClient = new LettermintClient({
+        apiToken,
+        retry: { baseDelay: 10000, jitter: false },
+        middleware: [{ onError }],
+      });
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+      const controller = new AbortController();
+      const reason = new Error('client went away');
+
+      const request = retryingClient.get('/test', { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort(reason);
+
+      await expect(request).rejects.toBe(reason);
+      expect(onError).toHaveBeenCalledWith(reason, expect.objectContaining({ attempt: 1 }));
+    });
+
+    it('should stop waiting for the rate limiter once the signal aborts', async () => {
+      const onError = jest.fn();
+      const throttledClient = new LettermintClient({
+        apiToken,
+        rateLimit: { requestsPerSecond: 0.01, burst: 1 },
+        middleware: [{ onError }],
+      });
+      const controller = new AbortController();
+      const reason = new Error('client went away');
+
+      await throttledClient.get('/first');
+      const request = throttledClient.get('/second', { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort(reason);
+
+      await expect(request).rejects.toBe(reason);
+      expect(onError).toHaveBeenCalledWith(reason, expect.objectContaining({ path: '/second' }));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('errors', () => {
+    const failure = (
+      status: number,
+      statusText: string,
+      body: string,
+      headers: Record<string, string> = {}
+    ) =>
+      ({
+        ok: false,
+        status,
+        statusText,
+        headers: new Headers({ 'X-Request-Id': 'req_123', ...headers }),
+        text: async () => body,
+      }) as Response;
+
+    it.each([
+      [401, 'Unauthorized', AuthenticationError],
+      [403, 'Forbidden', PermissionError],
+      [404, 'Not Found', NotFoundError],
+      [409, 'Conflict', ConflictError],
+      [500, 'Internal Server Error', ServerError],
+      [503, 'Service Unavailable', ServerError],
+    ])('should map status %i to a dedicated error class', async (status, statusText, type) => {
+      mockFetch.mockResolvedValueOnce(failure(status, statusText, '{"message":"Nope"}'));
+
+      const error = await client.get('/test').catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(type);
+      expect(error).toBeInstanceOf(HttpRequestError);
+      expect(error).toMatchObject({ statusCode: status, responseBody: { message: 'Nope' } });
+    });
+
+    it('should expose the request id and response headers', async () => {
+      mockFetch.mockResolvedValueOnce(failure(404, 'Not Found', '{}'));
+
+      const error = (await client.get('/test').catch((caught) => caught)) as NotFoundError;
+
+      expect(error.requestId).toBe('req_123');
+      expect(error.headers?.get('X-Request-Id')).toBe('req_123');
+    });
+
+    it('should keep non-JSON error bodies as text', async () => {
+      const html = '<html><body><h1>502 Bad Gateway</h1></body></html>';
+      mockFetch.mockResolvedValueOnce(failure(502, 'Bad Gateway', html));
+
+      await expect(client.get('/test')).rejects.toMatchObject({
+        name: 'ServerError',
+        message: 'HTTP error 502 Bad Gateway',
+        responseBody: html,
+      });
+    });
+
+    it('should expose field-level messages on validation errors', async () => {
+      mockFetch.mockResolvedValueOnce(
+        failure(
+          422,
+          'Unprocessable Entity',
+          JSON.stringify({
+            message: 'The to.0 field must be a valid email address.',
+            errors: {
+              'to.0': ['The to.0 field must be a valid email address.'],
+              subject: 'The subject field is required.',
+            },
+          })
+        )
+      );
+
+      const error = (await client.post('/send', {}).catch((caught) => caught)) as ValidationError;
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.errors).toEqual({
+        'to.0': ['The to.0 field must be a valid email address.'],
+        subject: ['The subject field is required.'],
+      });
+    });
+  });
+
+  describe('logging', () => {
+    const createLogger = () => ({
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    });
+
+    const payload = {
+      from: 'Sender <sender@example.com>',
+      to: ['John Doe <john@example.com>', 'jane@example.org'],
+      subject: 'Hello',
+      html: '<p>Secret offer</p>',
+      text: 'Secret offer',
+      attachments: [{ filename: 'invoice.pdf', content: 'JVBERi0xLjQK' }],
+    };
+
+    it('should log requests with secrets and attachment contents redacted', async () => {
+      const logger = createLogger();
+      const loggingClient = new LettermintClient({ apiToken, logger, logLevel: 'debug' });
+      mockFetch.mockResolvedValueOnce(new Response('{}', { status: 202 }));
+
+      await loggingClient.post('/send', payload);
+
+      expect(logger.debug).toHaveBeenCalledWith('Lettermint request', {
+        method: 'POST',
+        url: 'https://api.lettermint.co/v1/send',
+        attempt: 1,
+        headers: expect.objectContaining({ 'x-lettermint-token': '[REDACTED]' }),
+        body: {
+          ...payload,
+          attachments: [{ filename: 'invoice.pdf', content: '[REDACTED] 12 chars' }],
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        'Lettermint response',
+        expect.objectContaining({ method: 'POST', path: '/send', status: 202 })
+      );
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain(apiToken);
+    });
+
+    it('should optionally redact recipients and bodies', async () => {
+      const logger = createLogger();
+      const loggingClient = new LettermintClient({
+        apiToken,
+        logger,
+        logLevel: 'debug',
+        redact: { recipients: true, bodies: true },
+      });
+      mockFetch.mockResolvedValueOnce(new Response('{}', { status: 202 }));
+
+      await loggingClient.post('/send', payload);
+
+      expect(logger.debug.mock.calls[0][1].body).toMatchObject({
+        to: ['<***@example.com>', '***@example.org'],
+        html: '[REDACTED] 19 chars',
+        text: '[REDACTED] 12 chars',
+      });
+    });
+
+    it('should respect the log level', async () => {
+      const logger = createLogger();
+      const loggingClient = new LettermintClient({ apiToken, logger, logLevel: 'error' });
+      mockFetch.mockResolvedValueOnce(
+        new Response('{"message":"Missing"}', { status: 404, statusText: 'Not Found' })
+      );
+
+      await expect(loggingClient.get('/missing')).rejects.toThrow('HTTP error 404 Not Found');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(logger.warn).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith('Lettermint request failed', {
+        method: 'GET',
+        path: '/missing',
+        attempt: 1,
+        error: 'NotFoundError: HTTP error 404 Not Found',
+        status: 404,
+        requestId: undefined,
+      });
+    });
+
+    it('should pass the context first in the pino log style', async () => {
+      const lines: Array<{ level: string; context: object; message?: string }> = [];
+      const method =
+        (level: string) =>
+        (first: object | string, second?: string): void => {
+          // pino's signature: an object to merge into the line, then the message
+          if (typeof first === 'string') {
+            throw new Error('pino would drop the context of this call');
+          }
+
+          lines.push({ level, context: first, message: second });
+        };
+      const pino = {
+        debug: method('debug'),
+        info: method('info'),
+        warn: method('warn'),
+        error: method('error'),
+      };
+      const loggingClient = new LettermintClient({ apiToken, logger: pino, logStyle: 'pino' });
+      mockFetch.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      await loggingClient.get('/domains');
+
+      expect(lines).toEqual([
+        {
+          level: 'info',
+          context: expect.objectContaining({ method: 'GET', path: '/domains', status: 200 }),
+          message: 'Lettermint response',
+        },
+      ]);
+    });
+
+    it('should log retries as warnings', async () => {
+      const logger = createLogger();
+      const loggingClient = new LettermintClient({
+        apiToken,
+        logger,
+        retry: { baseDelay: 0, jitter: false },
+      });
+      mockFetch
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      await loggingClient.get('/test');
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Retrying Lettermint request',
+        expect.objectContaining({ attempt: 1, reason: 'HTTP 503', delayMs: 0 })
+      );
+    });
   });
 });
@@ -1,27 +1,142 @@
 import { isNativeError } from 'node:util/types';
 import { version } from '../package.json';
-import { ClientError, HttpRequestError, TimeoutError, ValidationError } from './utils/errors';
+import { ApiPromise } from './api-promise';
+import { textFromHtml } from './html-to-text';
+import type { Middleware, MiddlewareResult, RequestContext, RetryRequest } from './middleware';
+import {
+  type ClientMode,
+  FileOutbox,
+  MemoryOutbox,
+  type OutboxStore,
+  outboxTransport,
+} from './outbox/outbox';
+import { Telemetry, type TelemetryConfig } from './telemetry';
+import {
+  AuthenticationError,
+  ClientError,
+  ConflictError,
+  type HttpErrorContext,
+  HttpRequestError,
+  LettermintError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from './utils/errors';
+import {
+  ClientLogger,
+  type LogLevel,
+  type LogStyle,
+  type Logger,
+  type RedactConfig,
+} from './utils/logger';
+import { TokenBucket, parseRateLimitHeaders } from './utils/rate-limit';
+import {
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  backoffDelay,
+  isNetworkError,
+  parseRetryAfter,
+  sleep,
+} from './utils/retry';
+import { payloadValidation } from './validation';
 
 /**
- * Request configuration options
+ * Per-call options accepted by every endpoint method
  */
-export interface RequestConfig {
+export interface RequestOptions {
   /**
-   * Request headers
+   * Additional request headers
    */
   headers?: Record<string, string>;
 
   /**
-   * Request timeout in milliseconds
+   * Request timeout in milliseconds, overriding the client timeout
    */
   timeout?: number;
 
+  /**
+   * Signal to cancel the request, combined with the timeout
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Request configuration options
+ */
+export interface RequestConfig extends RequestOptions {
   /**
    * Query parameters
    */
   params?: Record<string, string>;
 }
 
+/**
+ * Request options handed to a transport
+ */
+export interface TransportRequestInit extends RequestInit {
+  /**
+   * Undici dispatcher, e.g. a `ProxyAgent` or an `Agent` configured for mTLS
+   */
+  dispatcher?: unknown;
+}
+
+/**
+ * A fetch-compatible function that performs the HTTP request
+ *
+ * @example
+ * const transport: Transport = (url, init) => fetch(url, init);
+ */
+export type Transport = (url: string, init: TransportRequestInit) => Promise<Response>;
+
+/**
+ * Retry policy options
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first one (defaults to 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Base delay in milliseconds for the exponential backoff (defaults to 500)
+   */
+  baseDelay?: number;
+
+  /**
+   * Maximum delay in milliseconds between attempts (defaults to 8000)
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomize each delay between zero and the computed backoff (defaults to true)
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that trigger a retry (defaults to 408, 429, 500, 502, 503 and 504)
+   */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * Client-side rate limiting options
+ */
+export interface RateLimitConfig {
+  /**
+   * Sustained number of requests per second
+   */
+  requestsPerSecond: number;
+
+  /**
+   * Number of requests that may be sent at once before throttling kicks in
+   * (defaults to requestsPerSecond)
+   */
+  burst?: number;
+}
+
 /**
  * Configuration options for the Lettermint client
  */
@@ -45,6 +160,103 @@ export interface LettermintClientConfig {
    * Authentication surface for this client.
    */
   authMode?: 'sending' | 'api';
+
+  /**
+   * Retry policy for transient failures (optional, disabled by default)
+   *
+   * Pass `true` to use the default policy. POST requests are only retried
+   * when they carry an `Idempotency-Key` header.
+   */
+  retry?: boolean | RetryConfig;
+
+  /**
+   * Client-side throttling (optional, disabled by default)
+   *
+   * Requests beyond the limit are queued instead of sent, and a 429 response
+   * holds back queued requests until the API allows new ones.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Fetch implementation used to send requests (optional, defaults to the global fetch)
+   */
+  fetch?: Transport;
+
+  /**
+   * Undici dispatcher passed along with every request, e.g. to route through a proxy (optional)
+   */
+  dispatcher?: unknown;
+
+  /**
+   * Middleware that runs around every request, in order (optional)
+   */
+  middleware?: Middleware[];
+
+  /**
+   * OpenTelemetry tracing and metrics (optional, disabled by default)
+   *
+   * Pass `true` to use the global providers of `@opentelemetry/api`, which is an
+   * optional peer dependency, or pass a tracer and meter explicitly.
+   */
+  telemetry?: boolean | TelemetryConfig;
+
+  /**
+   * Validate send and batch payloads locally before sending (optional, disabled by default)
+   *
+   * Invalid payloads throw a `PayloadValidationError` listing every problem. Runs after
+   * the other middleware, so it checks the payload they produced.
+   */
+  validate?: boolean;
+
+  /**
+   * Derive a plain-text body from the HTML of sends without one (optional, disabled by default)
+   *
+   * Makes the text part deterministic instead of depending on the route settings. Runs
+   * after the other middleware and before validation.
+   */
+  textFromHtml?: boolean;
+
+  /**
+   * How send requests are delivered (optional, defaults to live)
+   *
+   * `dry-run` and `outbox` never call the API: send and batch payloads are
+   * captured and answered with synthetic responses.
+   */
+  mode?: ClientMode;
+
+  /**
+   * Store for captured emails, or the directory of the `outbox` mode (optional)
+   *
+   * Defaults to a `MemoryOutbox` for `dry-run` and a `FileOutbox` in
+   * `.lettermint/outbox` for `outbox`.
+   */
+  outbox?: OutboxStore | string;
+
+  /**
+   * Logger for request and response activity (optional)
+   *
+   * Authentication headers and attachment contents are always redacted.
+   */
+  logger?: Logger;
+
+  /**
+   * Minimum level to log (optional, defaults to info)
+   *
+   * Request headers and payloads are only logged at debug level.
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Argument order of logger calls (optional, defaults to console)
+   *
+   * Use `pino` for pino and bunyan, which take the context object before the message.
+   */
+  logStyle?: LogStyle;
+
+  /**
+   * Additional redaction of logged payloads (optional)
+   */
+  redact?: RedactConfig;
 }
 
 /**
@@ -56,17 +268,60 @@ export class LettermintClient {
   private readonly timeout: number;
   private readonly defaultHeaders: Record<string, string>;
   private readonly authMode: 'sending' | 'api';
+  private readonly retryPolicy?: RetryPolicy;
+  private readonly rateLimiter?: TokenBucket;
+  private readonly transport: Transport;
+  private readonly networkTransport: Transport;
+  private readonly dispatcher?: unknown;
+  private readonly middleware: Middleware[];
+  private readonly payloadMiddleware: Middleware[];
+  private readonly telemetry: Telemetry;
+  private readonly logger: ClientLogger;
+
+  /**
+   * Store of the captured emails in the `dry-run` and `outbox` modes
+   */
+  public readonly outbox?: OutboxStore;
 
   /**
    * Create a new Lettermint client
    *
    * @param config Configuration options
+   * @throws {RangeError} When the rate limit is not positive or its burst is below 1
    */
   constructor(config: LettermintClientConfig) {
     this.apiToken = config.apiToken;
     this.baseUrl = config.baseUrl || 'https://api.lettermint.co/v1';
     this.timeout = config.timeout || 30000;
     this.authMode = config.authMode || 'sending';
+    this.outbox = createOutbox(config.mode, config.outbox);
+    this.networkTransport = config.fetch || ((url, init) => fetch(url, init));
+    this.transport = this.outbox
+      ? outboxTransport(this.outbox, this.baseUrl)
+      : this.networkTransport;
+    this.dispatcher = config.dispatcher;
+    this.middleware = [...(config.middleware || [])];
+    this.payloadMiddleware = [
+      ...(config.textFromHtml ? [textFromHtml()] : []),
+      ...(config.validate ? [payloadValidation()] : []),
+    ];
+    this.telemetry = new Telemetry(config.telemetry);
+    this.logger = new ClientLogger(config.logger, config.logLevel, config.redact, config.logStyle);
+
+    if (config.retry) {
+      this.retryPolicy = {
+        ...DEFAULT_RETRY_POLICY,
+        ...(config.retry === true ? {} : config.retry),
+      };
+    }
+
+    if (config.rateLimit) {
+      const { requestsPerSecond, burst } = config.rateLimit;
+      this.rateLimiter = new TokenBucket(
+        burst ?? Math.max(1, Math.ceil(requestsPerSecond)),
+        requestsPerSecond
+      );
+    }
 
     const nodeVersion = process.version.replace(/^v/, '');
 
@@ -78,57 +333,440 @@ export class LettermintClient {
   }
 
   /**
-   * Make a request to the API with timeout support
+   * Register middleware that runs around every request made by this client
    *
-   * @param url The full URL to request
-   * @param options Fetch options
+   * @param middleware The middleware to append to the chain
+   * @returns The current instance for chaining
+   */
+  public use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Make a request to the API, retrying transient failures according to the retry policy
+   *
+   * @param method HTTP method
+   * @param path API endpoint path
+   * @param data Request payload
+   * @param config Optional request configuration
    * @returns Promise resolving to the response
    */
-  private async fetchWithTimeout(url: string, options: RequestInit): Promise<Response> {
-    const controller = new AbortController();
-    const { signal } = controller;
+  private async request(
+    method: string,
+    path: string,
+    data?: unknown,
+    config?: RequestConfig
+  ): Promise<Response> {
+    const url = this.buildUrl(path, config?.params);
+    const headers = this.buildHeaders(config?.headers);
+    const policy = this.retryPolicy;
+    const maxAttempts = policy && this.isRetryable(method, headers) ? policy.maxAttempts : 1;
+    const middlewareAttempts = (policy ?? DEFAULT_RETRY_POLICY).maxAttempts;
+
+    for (let attempt = 1; ; attempt++) {
+      const context: RequestContext = {
+        method,
+        url,
+        path,
+        headers: { ...headers },
+        body: data,
+        attempt,
+      };
+
+      try {
+        const { response, retry } = await this.dispatch(context, config);
+
+        if (retry && attempt < middlewareAttempts) {
+          await this.backOff(context, 'retry requested by middleware', attempt, config, response);
+          continue;
+        }
 
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        if (response.ok) {
+          return response;
+        }
 
-    try {
-      const response = await fetch(url, { ...options, signal });
-      clearTimeout(timeoutId);
+        if (response.status === 429 && this.rateLimiter) {
+          const { retryAfter } = parseRateLimitHeaders(response.headers);
+          this.rateLimiter.pause(retryAfter ?? 1000);
+        }
 
-      if (!response.ok) {
-        const responseBody = await response.json();
+        if (
+          policy &&
+          attempt < maxAttempts &&
+          policy.retryableStatusCodes.includes(response.status)
+        ) {
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+          if (retryAfter === undefined || retryAfter <= policy.maxDelay) {
+            const delay = retryAfter ?? backoffDelay(policy, attempt);
+            this.logger.retry(context, `HTTP ${response.status}`, delay);
+            await discardBody(response);
+            await sleep(delay, config?.signal);
+            continue;
+          }
+        }
 
-        if (response.status === 422) {
-          const errorType = responseBody?.error || 'ValidationError';
-          throw new ValidationError(`Validation error: ${errorType}`, errorType, responseBody);
+        throw await this.createError(response);
+      } catch (caught) {
+        let error = caught;
+
+        if (policy && attempt < maxAttempts && this.isTransientError(error)) {
+          const delay = backoffDelay(policy, attempt);
+          this.logger.retry(context, error, delay);
+
+          try {
+            await sleep(delay, config?.signal);
+            continue;
+          } catch (abortReason) {
+            error = abortReason;
+          }
         }
 
-        // Handle 400 client errors
-        if (response.status === 400) {
-          throw new ClientError(
-            `Client error: ${responseBody?.error || 'Unknown client error'}`,
-            responseBody
-          );
+        if (error instanceof LettermintError) {
+          error.attempts = attempt;
         }
 
-        throw new HttpRequestError(
-          `HTTP error ${response.status} ${response.statusText}`,
-          response.status,
-          responseBody
-        );
+        const recovered = await this.runErrorMiddleware(error, context);
+
+        if (
+          recovered === undefined ||
+          (isRetryRequest(recovered) && attempt >= middlewareAttempts)
+        ) {
+          this.logger.failure(context, error);
+          throw error;
+        }
+
+        if (isRetryRequest(recovered)) {
+          try {
+            await this.backOff(context, error, attempt, config);
+          } catch (abortReason) {
+            this.logger.failure(context, abortReason);
+            throw abortReason;
+          }
+
+          continue;
+        }
+
+        return recovered;
+      }
+    }
+  }
+
+  /**
+   * Wait before an attempt that middleware asked for, using the retry policy backoff
+   *
+   * @param context The request context of the attempt that is retried
+   * @param reason Why the request is retried, for the log
+   * @param attempt The attempt that is retried
+   * @param config Optional request configuration
+   * @param response The response that will not be read, if any
+   */
+  private async backOff(
+    context: RequestContext,
+    reason: unknown,
+    attempt: number,
+    config?: RequestConfig,
+    response?: Response
+  ): Promise<void> {
+    const delay = backoffDelay(this.retryPolicy ?? DEFAULT_RETRY_POLICY, attempt);
+
+    this.logger.retry(context, reason, delay);
+
+    if (response) {
+      await discardBody(response);
+    }
+
+    await sleep(delay, config?.signal);
+  }
+
+  /**
+   * The middleware in the order they run: the registered ones, then the built-in payload checks
+   */
+  private get chain(): Middleware[] {
+    return [...this.middleware, ...this.payloadMiddleware];
+  }
+
+  /**
+   * Run a single attempt through the request and response middleware
+   *
+   * @param context The request context
+   * @param config Optional request configuration
+   * @returns Promise resolving to the response, and whether middleware asked to retry it
+   */
+  private async dispatch(
+    context: RequestContext,
+    config?: RequestConfig
+  ): Promise<{ response: Response; retry: boolean }> {
+    let response: Response =
+      (await this.runRequestMiddleware(context)) ?? (await this.transmit(context, config));
+
+    for (const middleware of this.chain) {
+      const result = await middleware.onResponse?.(response, context);
+
+      if (isRetryRequest(result)) {
+        return { response, retry: true };
       }
 
+      if (result) {
+        response = result;
+      }
+    }
+
+    return { response, retry: false };
+  }
+
+  /**
+   * Send the request described by the context over the network, recording telemetry
+   *
+   * @param context The request context
+   * @param config Optional request configuration
+   * @returns Promise resolving to the response
+   */
+  private async transmit(context: RequestContext, config?: RequestConfig): Promise<Response> {
+    const recorder = this.telemetry.startAttempt(context);
+    const startedAt = performance.now();
+
+    this.logger.request(context);
+
+    try {
+      const response = await this.attempt(
+        context.url,
+        {
+          method: context.method,
+          headers: context.headers,
+          body: context.body ? JSON.stringify(context.body) : undefined,
+        },
+        config
+      );
+
+      await recorder.end(response);
+      this.logger.response(context, response, performance.now() - startedAt);
+
       return response;
     } catch (error) {
-      clearTimeout(timeoutId);
+      recorder.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run the request middleware until one of them short-circuits the request
+   *
+   * @param context The request context
+   * @returns Promise resolving to the short-circuit response, if any
+   */
+  private async runRequestMiddleware(context: RequestContext): Promise<Response | undefined> {
+    for (const middleware of this.chain) {
+      const result = await middleware.onRequest?.(context);
 
-      if (isNativeError(error) && error.name === 'AbortError') {
-        throw new TimeoutError(`Request timeout after ${this.timeout}ms`);
+      if (result) {
+        return result;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Give error middleware the chance to observe or recover from a failed request
+   *
+   * @param error The error that ended the request
+   * @param context The request context
+   * @returns Promise resolving to the first recovery result, if any
+   */
+  private async runErrorMiddleware(
+    error: unknown,
+    context: RequestContext
+  ): Promise<Exclude<MiddlewareResult, undefined> | undefined> {
+    for (const middleware of this.chain) {
+      const result = await middleware.onError?.(error, context);
+
+      if (result) {
+        return result;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Make a single request attempt with timeout and cancellation support
+   *
+   * @param url The full URL to request
+   * @param options Fetch options
+   * @param config Optional request configuration
+   * @returns Promise resolving to the response
+   */
+  private async attempt(
+    url: string,
+    options: RequestInit,
+    config?: RequestConfig
+  ): Promise<Response> {
+    const external = config?.signal;
+
+    external?.throwIfAborted();
+    await this.rateLimiter?.acquire(external);
+
+    return this.fetchWithTimeout(this.transport, url, options, config);
+  }
+
+  /**
+   * Send a request through a transport, aborting it once the timeout elapses
+   *
+   * @param transport The transport to send the request through
+   * @param url The full URL to request
+   * @param options Fetch options
+   * @param config Optional request configuration
+   * @returns Promise resolving to the response
+   */
+  private async fetchWithTimeout(
+    transport: Transport,
+    url: string,
+    options: RequestInit,
+    config?: RequestOptions
+  ): Promise<Response> {
+    const timeout = config?.timeout ?? this.timeout;
+    const external = config?.signal;
+
+    external?.throwIfAborted();
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    const abort = () => controller.abort(external?.reason);
+
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    external?.addEventListener('abort', abort, { once: true });
+
+    try {
+      return await transport(url, {
+        ...options,
+        signal,
+        ...(this.dispatcher !== undefined && { dispatcher: this.dispatcher }),
+      });
+    } catch (error) {
+      if (external?.aborted) {
+        throw external.reason;
+      }
+
+      // fetch rejects with a DOMException, which is not a native error on Node 20
+      if ((isNativeError(error) || error instanceof DOMException) && error.name === 'AbortError') {
+        throw new TimeoutError(`Request timeout after ${timeout}ms`);
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      external?.removeEventListener('abort', abort);
     }
   }
 
+  /**
+   * Convert a failed response into the matching error
+   *
+   * @param response The failed response
+   * @returns The error to throw
+   */
+  private async createError(response: Response): Promise<HttpRequestError> {
+    const responseBody = await this.parseErrorBody(response);
+    const body = (typeof responseBody === 'object' ? responseBody : undefined) as
+      | { error?: string; message?: string }
+      | undefined;
+    const context: HttpErrorContext = {
+      requestId: response.headers.get('X-Request-Id') ?? undefined,
+      headers: response.headers,
+    };
+    const httpError = `HTTP error ${response.status} ${response.statusText}`;
+
+    switch (response.status) {
+      case 400:
+        return new ClientError(
+          `Client error: ${body?.error || 'Unknown client error'}`,
+          responseBody,
+          context
+        );
+      case 401:
+        return new AuthenticationError(httpError, responseBody, context);
+      case 403:
+        return new PermissionError(httpError, responseBody, context);
+      case 404:
+        return new NotFoundError(httpError, responseBody, context);
+      case 409:
+        return new ConflictError(httpError, responseBody, context);
+      case 422: {
+        const errorType = body?.error || 'ValidationError';
+        return new ValidationError(
+          `Validation error: ${errorType}`,
+          errorType,
+          responseBody,
+          context
+        );
+      }
+      case 429: {
+        const info = parseRateLimitHeaders(response.headers);
+        const retryAfter =
+          info.retryAfter === undefined
+            ? ''
+            : `, retry after ${Math.ceil(info.retryAfter / 1000)}s`;
+
+        return new RateLimitError(`Rate limit exceeded${retryAfter}`, info, responseBody, context);
+      }
+    }
+
+    if (response.status >= 500) {
+      return new ServerError(httpError, response.status, responseBody, context);
+    }
+
+    return new HttpRequestError(httpError, response.status, responseBody, context);
+  }
+
+  /**
+   * Read an error response body as JSON, falling back to text for non-JSON bodies
+   * such as HTML error pages from load balancers
+   *
+   * @param response The failed response
+   * @returns The parsed body, the raw text, or undefined when the body is empty or unreadable
+   */
+  private async parseErrorBody(response: Response): Promise<unknown> {
+    let text: string;
+
+    try {
+      text = await response.text();
+    } catch {
+      return undefined;
+    }
+
+    if (text.trim() === '') {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * Determine whether a request may be sent more than once
+   *
+   * Non-idempotent methods are only retried when an idempotency key is present.
+   */
+  private isRetryable(method: string, headers: Record<string, string>): boolean {
+    if (method !== 'POST') {
+      return true;
+    }
+
+    return Object.keys(headers).some((key) => key.toLowerCase() === 'idempotency-key');
+  }
+
+  /**
+   * Determine whether an error thrown by fetch is worth retrying
+   */
+  private isTransientError(error: unknown): boolean {
+    return error instanceof TimeoutError || isNetworkError(error);
+  }
+
   /**
    * Build the full URL including query parameters
    *
@@ -177,29 +815,36 @@ export class LettermintClient {
    * @param config Optional request configuration
    * @returns Promise resolving to the response data
    */
-  public async get<T>(path: string, config?: RequestConfig): Promise<T> {
-    const url = this.buildUrl(path, config?.params);
-
-    const headers = this.buildHeaders(config?.headers);
-
-    const response = await this.fetchWithTimeout(url, {
-      method: 'GET',
-      headers,
-    });
-
-    return response.json();
+  public get<T>(path: string, config?: RequestConfig): ApiPromise<T> {
+    return this.call('GET', path, undefined, config, (response) => response.json());
   }
 
-  public async getRaw(path: string, config?: RequestConfig): Promise<string> {
-    const url = this.buildUrl(path, config?.params);
-    const headers = this.buildHeaders(config?.headers);
+  public getRaw(path: string, config?: RequestConfig): ApiPromise<string> {
+    return this.call('GET', path, undefined, config, (response) => response.text());
+  }
 
-    const response = await this.fetchWithTimeout(url, {
-      method: 'GET',
-      headers,
-    });
+  /**
+   * Download a file from outside the API, e.g. an attachment given by URL
+   *
+   * The request goes through the configured transport and dispatcher and is bound by
+   * the timeout, but skips the API headers, middleware, retries and rate limit.
+   *
+   * @param url Absolute http(s) URL of the file
+   * @param options Optional headers, timeout and signal
+   * @returns Promise resolving to the response, which may have a failed status
+   * @throws {LettermintError} When the URL is not an http(s) URL
+   */
+  public async download(url: string, options?: RequestOptions): Promise<Response> {
+    if (!/^https?:\/\//i.test(url)) {
+      throw new LettermintError(`Only http(s) URLs can be downloaded, got ${url}`);
+    }
 
-    return response.text();
+    return this.fetchWithTimeout(
+      this.networkTransport,
+      url,
+      { method: 'GET', headers: options?.headers },
+      options
+    );
   }
 
   /**
@@ -210,18 +855,8 @@ export class LettermintClient {
    * @param config Optional request configuration
    * @returns Promise resolving to the response data
    */
-  public async post<T>(path: string, data?: unknown, config?: RequestConfig): Promise<T> {
-    const url = this.buildUrl(path, config?.params);
-
-    const headers = this.buildHeaders(config?.headers);
-
-    const response = await this.fetchWithTimeout(url, {
-      method: 'POST',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
-
-    return response.json();
+  public post<T>(path: string, data?: unknown, config?: RequestConfig): ApiPromise<T> {
+    return this.call('POST', path, data, config, (response) => response.json());
   }
 
   /**
@@ -232,18 +867,8 @@ export class LettermintClient {
    * @param config Optional request configuration
    * @returns Promise resolving to the response data
    */
-  public async put<T>(path: string, data?: unknown, config?: RequestConfig): Promise<T> {
-    const url = this.buildUrl(path, config?.params);
-
-    const headers = this.buildHeaders(config?.headers);
-
-    const response = await this.fetchWithTimeout(url, {
-      method: 'PUT',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
-
-    return response.json();
+  public put<T>(path: string, data?: unknown, config?: RequestConfig): ApiPromise<T> {
+    return this.call('PUT', path, data, config, (response) => response.json());
   }
 
   /**
@@ -253,16 +878,65 @@ export class LettermintClient {
    * @param config Optional request configuration
    * @returns Promise resolving to the response data
    */
-  public async delete<T>(path: string, config?: RequestConfig): Promise<T> {
-    const url = this.buildUrl(path, config?.params);
+  public delete<T>(path: string, config?: RequestConfig): ApiPromise<T> {
+    return this.call('DELETE', path, undefined, config, (response) => response.json());
+  }
 
-    const headers = this.buildHeaders(config?.headers);
+  /**
+   * Make a request and parse its body, keeping the response for `withResponse()`
+   *
+   * @param method HTTP method
+   * @param path API endpoint path
+   * @param data Request payload
+   * @param config Optional request configuration
+   * @param parse Function reading the response body
+   * @returns Promise resolving to the parsed body
+   */
+  private call<T>(
+    method: string,
+    path: string,
+    data: unknown,
+    config: RequestConfig | undefined,
+    parse: (response: Response) => Promise<T>
+  ): ApiPromise<T> {
+    const startedAt = performance.now();
+
+    return new ApiPromise(
+      this.request(method, path, data, config).then(async (response) => ({
+        data: await parse(response),
+        response,
+        durationMs: performance.now() - startedAt,
+      }))
+    );
+  }
+}
 
-    const response = await this.fetchWithTimeout(url, {
-      method: 'DELETE',
-      headers,
-    });
+function isRetryRequest(value: unknown): value is RetryRequest {
+  return typeof value === 'object' && value !== null && (value as RetryRequest).retry === true;
+}
 
-    return response.json();
+/**
+ * Release the body of a response that will not be read, so the connection can be reused
+ */
+async function discardBody(response: Response): Promise<void> {
+  try {
+    await response.body?.cancel();
+  } catch {
+    // The body was already read or is locked by a middleware
   }
 }
+
+function createOutbox(
+  mode: ClientMode | undefined,
+  outbox: OutboxStore | string | undefined
+): OutboxStore | undefined {
+  if (!mode || mode === 'live') {
+    return undefined;
+  }
+
+  if (typeof outbox === 'object') {
+    return outbox;
+  }
+
+  return mode === 'outbox' ? new FileOutbox(outbox) : new MemoryOutbox();
+}
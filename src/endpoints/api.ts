@@ -1,241 +1,435 @@
+import type { ApiPromise } from '../api-promise';
+import type { RequestOptions } from '../client';
+import { type PaginationOptions, Paginator } from '../pagination';
 import type * as Types from '../types';
 import { Endpoint } from './endpoint';
 
 export type QueryParams = Record<string, string>;
 
 export class DomainsEndpoint extends Endpoint {
-  public list(params?: QueryParams): Promise<Types.DomainIndexResponse> {
-    return this.httpClient.get('/domains', { params });
+  public list(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainIndexResponse> {
+    return this.httpClient.get('/domains', { ...options, params });
   }
 
-  public create(payload: Types.DomainStoreRequest): Promise<Types.DomainStoreResponse> {
-    return this.httpClient.post('/domains', payload);
+  public listAll(
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.DomainListData> {
+    return new Paginator((query) => this.list(query, options), params, options);
   }
 
-  public retrieve(domainId: string): Promise<Types.DomainShowResponse> {
-    return this.httpClient.get(`/domains/${this.pathSegment(domainId)}`);
+  public create(
+    payload: Types.DomainStoreRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainStoreResponse> {
+    return this.httpClient.post('/domains', payload, options);
   }
 
-  public delete(domainId: string): Promise<Types.DomainDestroyResponse> {
-    return this.httpClient.delete(`/domains/${this.pathSegment(domainId)}`);
+  public retrieve(
+    domainId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainShowResponse> {
+    return this.httpClient.get(`/domains/${this.pathSegment(domainId)}`, options);
   }
 
-  public verifyDnsRecords(domainId: string): Promise<Types.DomainVerifyDnsRecordsResponse> {
-    return this.httpClient.post(`/domains/${this.pathSegment(domainId)}/dns-records/verify`);
+  public delete(
+    domainId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainDestroyResponse> {
+    return this.httpClient.delete(`/domains/${this.pathSegment(domainId)}`, options);
+  }
+
+  public verifyDnsRecords(
+    domainId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainVerifyDnsRecordsResponse> {
+    return this.httpClient.post(
+      `/domains/${this.pathSegment(domainId)}/dns-records/verify`,
+      undefined,
+      options
+    );
   }
 
   public verifyDnsRecord(
     domainId: string,
-    recordId: string
-  ): Promise<Types.DomainVerifySpecificDnsRecordResponse> {
+    recordId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainVerifySpecificDnsRecordResponse> {
     return this.httpClient.post(
-      `/domains/${this.pathSegment(domainId)}/dns-records/${this.pathSegment(recordId)}/verify`
+      `/domains/${this.pathSegment(domainId)}/dns-records/${this.pathSegment(recordId)}/verify`,
+      undefined,
+      options
     );
   }
 
   public updateProjects(
     domainId: string,
-    payload: Types.DomainUpdateProjectsRequest
-  ): Promise<Types.DomainUpdateProjectsResponse> {
-    return this.httpClient.put(`/domains/${this.pathSegment(domainId)}/projects`, payload);
+    payload: Types.DomainUpdateProjectsRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.DomainUpdateProjectsResponse> {
+    return this.httpClient.put(`/domains/${this.pathSegment(domainId)}/projects`, payload, options);
   }
 }
 
 export class MessagesEndpoint extends Endpoint {
-  public list(params?: QueryParams): Promise<Types.MessageIndexResponse> {
-    return this.httpClient.get('/messages', { params });
+  public list(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.MessageIndexResponse> {
+    return this.httpClient.get('/messages', { ...options, params });
+  }
+
+  public listAll(
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.MessageListData> {
+    return new Paginator((query) => this.list(query, options), params, options);
   }
 
-  public retrieve(messageId: string): Promise<Types.MessageShowResponse> {
-    return this.httpClient.get(`/messages/${this.pathSegment(messageId)}`);
+  public retrieve(
+    messageId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.MessageShowResponse> {
+    return this.httpClient.get(`/messages/${this.pathSegment(messageId)}`, options);
   }
 
-  public events(messageId: string): Promise<Types.MessageEventsResponse> {
-    return this.httpClient.get(`/messages/${this.pathSegment(messageId)}/events`);
+  public events(
+    messageId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.MessageEventsResponse> {
+    return this.httpClient.get(`/messages/${this.pathSegment(messageId)}/events`, options);
   }
 
-  public source(messageId: string): Promise<string> {
-    return this.httpClient.getRaw(`/messages/${this.pathSegment(messageId)}/source`);
+  public source(messageId: string, options?: RequestOptions): ApiPromise<string> {
+    return this.httpClient.getRaw(`/messages/${this.pathSegment(messageId)}/source`, options);
   }
 
-  public html(messageId: string): Promise<string> {
-    return this.httpClient.getRaw(`/messages/${this.pathSegment(messageId)}/html`);
+  public html(messageId: string, options?: RequestOptions): ApiPromise<string> {
+    return this.httpClient.getRaw(`/messages/${this.pathSegment(messageId)}/html`, options);
   }
 
-  public text(messageId: string): Promise<string> {
-    return this.httpClient.getRaw(`/messages/${this.pathSegment(messageId)}/text`);
+  public text(messageId: string, options?: RequestOptions): ApiPromise<string> {
+    return this.httpClient.getRaw(`/messages/${this.pathSegment(messageId)}/text`, options);
   }
 }
 
 export class ProjectsEndpoint extends Endpoint {
-  public list(params?: QueryParams): Promise<Types.ProjectIndexResponse> {
-    return this.httpClient.get('/projects', { params });
+  public list(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectIndexResponse> {
+    return this.httpClient.get('/projects', { ...options, params });
+  }
+
+  public listAll(
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.ProjectListData> {
+    return new Paginator((query) => this.list(query, options), params, options);
   }
 
-  public create(payload: Types.ProjectStoreRequest): Promise<Types.ProjectStoreResponse> {
-    return this.httpClient.post('/projects', payload);
+  public create(
+    payload: Types.ProjectStoreRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectStoreResponse> {
+    return this.httpClient.post('/projects', payload, options);
   }
 
-  public retrieve(projectId: string): Promise<Types.ProjectShowResponse> {
-    return this.httpClient.get(`/projects/${this.pathSegment(projectId)}`);
+  public retrieve(
+    projectId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectShowResponse> {
+    return this.httpClient.get(`/projects/${this.pathSegment(projectId)}`, options);
   }
 
   public update(
     projectId: string,
-    payload: Types.ProjectUpdateRequest
-  ): Promise<Types.ProjectUpdateResponse> {
-    return this.httpClient.put(`/projects/${this.pathSegment(projectId)}`, payload);
+    payload: Types.ProjectUpdateRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectUpdateResponse> {
+    return this.httpClient.put(`/projects/${this.pathSegment(projectId)}`, payload, options);
   }
 
-  public delete(projectId: string): Promise<Types.ProjectDestroyResponse> {
-    return this.httpClient.delete(`/projects/${this.pathSegment(projectId)}`);
+  public delete(
+    projectId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectDestroyResponse> {
+    return this.httpClient.delete(`/projects/${this.pathSegment(projectId)}`, options);
   }
 
-  public rotateToken(projectId: string): Promise<Types.ProjectRotateTokenResponse> {
-    return this.httpClient.post(`/projects/${this.pathSegment(projectId)}/rotate-token`);
+  public rotateToken(
+    projectId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectRotateTokenResponse> {
+    return this.httpClient.post(
+      `/projects/${this.pathSegment(projectId)}/rotate-token`,
+      undefined,
+      options
+    );
   }
 
   public updateMembers(
     projectId: string,
-    payload: Types.ProjectUpdateMembersRequest
-  ): Promise<Types.ProjectUpdateMembersResponse> {
-    return this.httpClient.put(`/projects/${this.pathSegment(projectId)}/members`, payload);
+    payload: Types.ProjectUpdateMembersRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectUpdateMembersResponse> {
+    return this.httpClient.put(
+      `/projects/${this.pathSegment(projectId)}/members`,
+      payload,
+      options
+    );
   }
 
   public addMember(
     projectId: string,
-    teamMemberId: string
-  ): Promise<Types.ProjectAddMemberResponse> {
+    teamMemberId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectAddMemberResponse> {
     return this.httpClient.post(
-      `/projects/${this.pathSegment(projectId)}/members/${this.pathSegment(teamMemberId)}`
+      `/projects/${this.pathSegment(projectId)}/members/${this.pathSegment(teamMemberId)}`,
+      undefined,
+      options
     );
   }
 
   public removeMember(
     projectId: string,
-    teamMemberId: string
-  ): Promise<Types.ProjectRemoveMemberResponse> {
+    teamMemberId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.ProjectRemoveMemberResponse> {
     return this.httpClient.delete(
-      `/projects/${this.pathSegment(projectId)}/members/${this.pathSegment(teamMemberId)}`
+      `/projects/${this.pathSegment(projectId)}/members/${this.pathSegment(teamMemberId)}`,
+      options
     );
   }
 
-  public routes(projectId: string, params?: QueryParams): Promise<Types.RouteIndexResponse> {
-    return this.httpClient.get(`/projects/${this.pathSegment(projectId)}/routes`, { params });
+  public routes(
+    projectId: string,
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.RouteIndexResponse> {
+    return this.httpClient.get(`/projects/${this.pathSegment(projectId)}/routes`, {
+      ...options,
+      params,
+    });
+  }
+
+  public listAllRoutes(
+    projectId: string,
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.RouteListData> {
+    return new Paginator((query) => this.routes(projectId, query, options), params, options);
   }
 
   public createRoute(
     projectId: string,
-    payload: Types.RouteStoreRequest
-  ): Promise<Types.RouteStoreResponse> {
-    return this.httpClient.post(`/projects/${this.pathSegment(projectId)}/routes`, payload);
+    payload: Types.RouteStoreRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.RouteStoreResponse> {
+    return this.httpClient.post(
+      `/projects/${this.pathSegment(projectId)}/routes`,
+      payload,
+      options
+    );
   }
 }
 
 export class RoutesEndpoint extends Endpoint {
-  public retrieve(routeId: string): Promise<Types.RouteShowResponse> {
-    return this.httpClient.get(`/routes/${this.pathSegment(routeId)}`);
+  public retrieve(routeId: string, options?: RequestOptions): ApiPromise<Types.RouteShowResponse> {
+    return this.httpClient.get(`/routes/${this.pathSegment(routeId)}`, options);
   }
 
   public update(
     routeId: string,
-    payload: Types.RouteUpdateRequest
-  ): Promise<Types.RouteUpdateResponse> {
-    return this.httpClient.put(`/routes/${this.pathSegment(routeId)}`, payload);
+    payload: Types.RouteUpdateRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.RouteUpdateResponse> {
+    return this.httpClient.put(`/routes/${this.pathSegment(routeId)}`, payload, options);
   }
 
-  public delete(routeId: string): Promise<Types.RouteDestroyResponse> {
-    return this.httpClient.delete(`/routes/${this.pathSegment(routeId)}`);
+  public delete(routeId: string, options?: RequestOptions): ApiPromise<Types.RouteDestroyResponse> {
+    return this.httpClient.delete(`/routes/${this.pathSegment(routeId)}`, options);
   }
 
-  public verifyInboundDomain(routeId: string): Promise<Types.RouteVerifyInboundDomainResponse> {
-    return this.httpClient.post(`/routes/${this.pathSegment(routeId)}/verify-inbound-domain`);
+  public verifyInboundDomain(
+    routeId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.RouteVerifyInboundDomainResponse> {
+    return this.httpClient.post(
+      `/routes/${this.pathSegment(routeId)}/verify-inbound-domain`,
+      undefined,
+      options
+    );
   }
 }
 
 export class StatsEndpoint extends Endpoint {
-  public retrieve(params?: QueryParams): Promise<Types.StatsIndexResponse> {
-    return this.httpClient.get('/stats', { params });
+  public retrieve(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.StatsIndexResponse> {
+    return this.httpClient.get('/stats', { ...options, params });
   }
 }
 
 export class SuppressionsEndpoint extends Endpoint {
-  public list(params?: QueryParams): Promise<Types.SuppressionIndexResponse> {
-    return this.httpClient.get('/suppressions', { params });
+  public list(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.SuppressionIndexResponse> {
+    return this.httpClient.get('/suppressions', { ...options, params });
+  }
+
+  public listAll(
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.SuppressedRecipientData> {
+    return new Paginator((query) => this.list(query, options), params, options);
   }
 
-  public create(payload: Types.SuppressionStoreRequest): Promise<Types.SuppressionStoreResponse> {
-    return this.httpClient.post('/suppressions', payload);
+  public create(
+    payload: Types.SuppressionStoreRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.SuppressionStoreResponse> {
+    return this.httpClient.post('/suppressions', payload, options);
   }
 
-  public delete(suppressionId: string): Promise<Types.SuppressionDestroyResponse> {
-    return this.httpClient.delete(`/suppressions/${this.pathSegment(suppressionId)}`);
+  public delete(
+    suppressionId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.SuppressionDestroyResponse> {
+    return this.httpClient.delete(`/suppressions/${this.pathSegment(suppressionId)}`, options);
   }
 }
 
 export class TeamEndpoint extends Endpoint {
-  public retrieve(): Promise<Types.TeamShowResponse> {
-    return this.httpClient.get('/team');
+  public retrieve(options?: RequestOptions): ApiPromise<Types.TeamShowResponse> {
+    return this.httpClient.get('/team', options);
   }
 
-  public update(payload: Types.TeamUpdateRequest): Promise<Types.TeamUpdateResponse> {
-    return this.httpClient.put('/team', payload);
+  public update(
+    payload: Types.TeamUpdateRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.TeamUpdateResponse> {
+    return this.httpClient.put('/team', payload, options);
+  }
+
+  public usage(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.TeamUsageResponse> {
+    return this.httpClient.get('/team/usage', { ...options, params });
   }
 
-  public usage(params?: QueryParams): Promise<Types.TeamUsageResponse> {
-    return this.httpClient.get('/team/usage', { params });
+  public members(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.TeamMembersResponse> {
+    return this.httpClient.get('/team/members', { ...options, params });
   }
 
-  public members(params?: QueryParams): Promise<Types.TeamMembersResponse> {
-    return this.httpClient.get('/team/members', { params });
+  public listAllMembers(
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.TeamMemberData> {
+    return new Paginator((query) => this.members(query, options), params, options);
   }
 }
 
 export class WebhooksEndpoint extends Endpoint {
-  public list(params?: QueryParams): Promise<Types.WebhookIndexResponse> {
-    return this.httpClient.get('/webhooks', { params });
+  public list(
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookIndexResponse> {
+    return this.httpClient.get('/webhooks', { ...options, params });
   }
 
-  public create(payload: Types.WebhookStoreRequest): Promise<Types.WebhookStoreResponse> {
-    return this.httpClient.post('/webhooks', payload);
+  public listAll(
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.WebhookListData> {
+    return new Paginator((query) => this.list(query, options), params, options);
   }
 
-  public retrieve(webhookId: string): Promise<Types.WebhookShowResponse> {
-    return this.httpClient.get(`/webhooks/${this.pathSegment(webhookId)}`);
+  public create(
+    payload: Types.WebhookStoreRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookStoreResponse> {
+    return this.httpClient.post('/webhooks', payload, options);
+  }
+
+  public retrieve(
+    webhookId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookShowResponse> {
+    return this.httpClient.get(`/webhooks/${this.pathSegment(webhookId)}`, options);
   }
 
   public update(
     webhookId: string,
-    payload: Types.WebhookUpdateRequest
-  ): Promise<Types.WebhookUpdateResponse> {
-    return this.httpClient.put(`/webhooks/${this.pathSegment(webhookId)}`, payload);
+    payload: Types.WebhookUpdateRequest,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookUpdateResponse> {
+    return this.httpClient.put(`/webhooks/${this.pathSegment(webhookId)}`, payload, options);
   }
 
-  public delete(webhookId: string): Promise<Types.WebhookDestroyResponse> {
-    return this.httpClient.delete(`/webhooks/${this.pathSegment(webhookId)}`);
+  public delete(
+    webhookId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookDestroyResponse> {
+    return this.httpClient.delete(`/webhooks/${this.pathSegment(webhookId)}`, options);
   }
 
-  public test(webhookId: string): Promise<Types.WebhookTestResponse> {
-    return this.httpClient.post(`/webhooks/${this.pathSegment(webhookId)}/test`);
+  public test(webhookId: string, options?: RequestOptions): ApiPromise<Types.WebhookTestResponse> {
+    return this.httpClient.post(
+      `/webhooks/${this.pathSegment(webhookId)}/test`,
+      undefined,
+      options
+    );
   }
 
-  public regenerateSecret(webhookId: string): Promise<Types.WebhookRegenerateSecretResponse> {
-    return this.httpClient.post(`/webhooks/${this.pathSegment(webhookId)}/regenerate-secret`);
+  public regenerateSecret(
+    webhookId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookRegenerateSecretResponse> {
+    return this.httpClient.post(
+      `/webhooks/${this.pathSegment(webhookId)}/regenerate-secret`,
+      undefined,
+      options
+    );
   }
 
   public deliveries(
     webhookId: string,
-    params?: QueryParams
-  ): Promise<Types.WebhookDeliveriesResponse> {
-    return this.httpClient.get(`/webhooks/${this.pathSegment(webhookId)}/deliveries`, { params });
+    params?: QueryParams,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookDeliveriesResponse> {
+    return this.httpClient.get(`/webhooks/${this.pathSegment(webhookId)}/deliveries`, {
+      ...options,
+      params,
+    });
+  }
+
+  public listAllDeliveries(
+    webhookId: string,
+    params?: QueryParams,
+    options?: PaginationOptions & RequestOptions
+  ): Paginator<Types.WebhookDeliveryListData> {
+    return new Paginator((query) => this.deliveries(webhookId, query, options), params, options);
   }
 
   public delivery(
     webhookId: string,
-    deliveryId: string
-  ): Promise<Types.WebhookShowDeliveryResponse> {
+    deliveryId: string,
+    options?: RequestOptions
+  ): ApiPromise<Types.WebhookShowDeliveryResponse> {
     return this.httpClient.get(
-      `/webhooks/${this.pathSegment(webhookId)}/deliveries/${this.pathSegment(deliveryId)}`
+      `/webhooks/${this.pathSegment(webhookId)}/deliveries/${this.pathSegment(deliveryId)}`,
+      options
     );
   }
 }
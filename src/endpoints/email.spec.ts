@@ -1,5 +1,7 @@
 import { LettermintClient } from '../client';
+import { LettermintError } from '../utils/errors';
 import { EmailEndpoint } from './email';
+import { EmailMessage } from './message';
 
 jest.mock('../client');
 
@@ -21,11 +23,11 @@ describe('EmailEndpoint', () => {
   it('should set the from address', () => {
     const result = emailEndpoint.from('test@example.com');
 
-    // Verify fluent interface returns this
-    expect(result).toBe(emailEndpoint);
+    // Every fluent chain starts a new message
+    expect(result).toBeInstanceOf(EmailMessage);
 
     // Send the email to trigger the API call
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       // Verify the payload contains the from address
       expect(client.post).toHaveBeenCalledWith(
         '/send',
@@ -40,9 +42,9 @@ describe('EmailEndpoint', () => {
   it('should set the to addresses', () => {
     const result = emailEndpoint.to('recipient1@example.com', 'recipient2@example.com');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -56,9 +58,9 @@ describe('EmailEndpoint', () => {
   it('should set the subject', () => {
     const result = emailEndpoint.subject('Test Subject');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -72,9 +74,9 @@ describe('EmailEndpoint', () => {
   it('should set the HTML content', () => {
     const result = emailEndpoint.html('<p>Test HTML</p>');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -88,9 +90,9 @@ describe('EmailEndpoint', () => {
   it('should set the text content', () => {
     const result = emailEndpoint.text('Test text');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -104,9 +106,9 @@ describe('EmailEndpoint', () => {
   it('should set the CC addresses', () => {
     const result = emailEndpoint.cc('cc1@example.com', 'cc2@example.com');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -120,9 +122,9 @@ describe('EmailEndpoint', () => {
   it('should set the BCC addresses', () => {
     const result = emailEndpoint.bcc('bcc1@example.com', 'bcc2@example.com');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -136,9 +138,9 @@ describe('EmailEndpoint', () => {
   it('should set the reply-to addresses', () => {
     const result = emailEndpoint.replyTo('reply1@example.com', 'reply2@example.com');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -153,9 +155,9 @@ describe('EmailEndpoint', () => {
     const headers = { 'X-Custom': 'Value', 'X-Another': 'Another Value' };
     const result = emailEndpoint.headers(headers);
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -169,9 +171,9 @@ describe('EmailEndpoint', () => {
   it('should add attachments', () => {
     const result = emailEndpoint.attach('test.txt', 'base64content');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -190,9 +192,9 @@ describe('EmailEndpoint', () => {
   it('should add attachments with content_id', () => {
     const result = emailEndpoint.attach('image.png', 'base64imagedata', 'logo');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -212,9 +214,9 @@ describe('EmailEndpoint', () => {
   it('should set the route', () => {
     const result = emailEndpoint.route('test-route');
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -229,9 +231,9 @@ describe('EmailEndpoint', () => {
     const metadata = { foo: 'bar', fizz: 'buzz' };
     const result = emailEndpoint.metadata(metadata);
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -246,9 +248,9 @@ describe('EmailEndpoint', () => {
     const tag = 'campaign-123';
     const result = emailEndpoint.tag(tag);
 
-    expect(result).toBe(emailEndpoint);
+    expect(result).toBeInstanceOf(EmailMessage);
 
-    return emailEndpoint.send().then(() => {
+    return result.send().then(() => {
       expect(client.post).toHaveBeenCalledWith(
         '/send',
         expect.objectContaining({
@@ -261,7 +263,7 @@ describe('EmailEndpoint', () => {
 
   it('should send the email with all options', async () => {
     // Set up a complete email
-    emailEndpoint
+    const message = emailEndpoint
       .from('sender@example.com')
       .to('recipient@example.com')
       .subject('Test Subject')
@@ -279,7 +281,7 @@ describe('EmailEndpoint', () => {
       .tag('campaign-123');
 
     // Send the email
-    const response = await emailEndpoint.send();
+    const response = await message.send();
 
     // Verify the response
     expect(response).toEqual({
@@ -384,14 +386,14 @@ describe('EmailEndpoint', () => {
 
   it('should set the idempotency key in the request headers', async () => {
     // Set up a basic email with an idempotency key
-    emailEndpoint
+    const message = emailEndpoint
       .from('sender@example.com')
       .to('recipient@example.com')
       .subject('Test Subject')
       .idempotencyKey('unique-id-123');
 
     // Send the email
-    await emailEndpoint.send();
+    await message.send();
 
     // Verify the idempotency key is included in the request config
     expect(client.post).toHaveBeenCalledWith('/send', expect.any(Object), {
@@ -400,4 +402,125 @@ describe('EmailEndpoint', () => {
       },
     });
   });
+
+  it('should merge per-call options with the idempotency key', async () => {
+    const controller = new AbortController();
+
+    await emailEndpoint
+      .from('sender@example.com')
+      .to('recipient@example.com')
+      .subject('Test Subject')
+      .idempotencyKey('unique-id-123')
+      .send({ timeout: 5000, signal: controller.signal, headers: { 'X-Trace': 'abc' } });
+
+    expect(client.post).toHaveBeenCalledWith('/send', expect.any(Object), {
+      timeout: 5000,
+      signal: controller.signal,
+      headers: {
+        'X-Trace': 'abc',
+        'Idempotency-Key': 'unique-id-123',
+      },
+    });
+  });
+
+  it('should pass per-call options to batch sends', async () => {
+    const payload = [{ from: 'from@example.com', to: ['to@example.com'], subject: 'Hello' }];
+
+    await emailEndpoint.sendBatch(payload, { timeout: 1000 });
+
+    expect(client.post).toHaveBeenCalledWith('/send/batch', payload, { timeout: 1000 });
+  });
+
+  it('should reject the deprecated endpoint send() with a migration hint', async () => {
+    emailEndpoint.from('sender@example.com');
+    emailEndpoint.to('recipient@example.com');
+
+    await expect(emailEndpoint.send()).rejects.toThrow(LettermintError);
+    await expect(emailEndpoint.send()).rejects.toThrow(/email\.compose\(\)/);
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  describe('compose', () => {
+    it('should build messages independently of each other and the endpoint', async () => {
+      const draft = emailEndpoint.from('draft@example.com').subject('Draft');
+
+      const first = emailEndpoint.compose().from('first@example.com').to('a@example.com');
+      const second = emailEndpoint.compose().from('second@example.com').to('b@example.com');
+
+      first.subject('First').idempotencyKey('key-1');
+      second.subject('Second');
+
+      await Promise.all([second.send(), first.send()]);
+
+      expect(client.post).toHaveBeenCalledWith(
+        '/send',
+        { from: 'first@example.com', to: ['a@example.com'], subject: 'First' },
+        { headers: { 'Idempotency-Key': 'key-1' } }
+      );
+      expect(client.post).toHaveBeenCalledWith(
+        '/send',
+        { from: 'second@example.com', to: ['b@example.com'], subject: 'Second' },
+        undefined
+      );
+      expect(draft.toPayload()).toEqual({ from: 'draft@example.com', to: [], subject: 'Draft' });
+    });
+
+    it('should start every fluent chain on the endpoint with a new message', async () => {
+      const first = emailEndpoint.from('first@example.com');
+      const second = emailEndpoint.from('second@example.com');
+
+      first.to('a@example.com').subject('First');
+      second.to('b@example.com').subject('Second');
+
+      await Promise.all([first.send(), second.send()]);
+
+      expect(first).not.toBe(second);
+      expect(client.post).toHaveBeenCalledWith(
+        '/send',
+        { from: 'first@example.com', to: ['a@example.com'], subject: 'First' },
+        undefined
+      );
+      expect(client.post).toHaveBeenCalledWith(
+        '/send',
+        { from: 'second@example.com', to: ['b@example.com'], subject: 'Second' },
+        undefined
+      );
+    });
+
+    it('should keep the payload after sending so a message can be sent again', async () => {
+      const message = emailEndpoint
+        .compose()
+        .from('sender@example.com')
+        .to('recipient@example.com')
+        .subject('Hello');
+
+      await message.send();
+      await message.send();
+
+      expect(client.post).toHaveBeenCalledTimes(2);
+      expect(client.post).toHaveBeenLastCalledWith(
+        '/send',
+        expect.objectContaining({ subject: 'Hello' }),
+        undefined
+      );
+    });
+
+    it('should clone messages without sharing nested state', () => {
+      const template = emailEndpoint
+        .compose()
+        .from('sender@example.com')
+        .subject('Newsletter')
+        .attach('terms.pdf', 'base64content');
+      const copy = template.clone().to('user@example.com').attach('extra.txt', 'more');
+
+      expect(template.toPayload()).toEqual({
+        from: 'sender@example.com',
+        to: [],
+        subject: 'Newsletter',
+        attachments: [{ filename: 'terms.pdf', content: 'base64content' }],
+      });
+      expect(copy.toPayload().attachments).toHaveLength(2);
+      expect(copy.toPayload().to).toEqual(['user@example.com']);
+    });
+  });
 });
@@ -1,257 +1,239 @@
-import type {
-  EmailPayload,
-  SendBatchEmailResponse,
-  SendBatchMailRequest,
-  SendEmailResponse,
-} from '../types';
+import type { ApiPromise } from '../api-promise';
+import { type BulkItem, type BulkSendOptions, type BulkSendResult, sendBulk } from '../batch';
+import type { RequestOptions } from '../client';
+import type { SendBatchEmailResponse, SendBatchMailRequest, SendEmailResponse } from '../types';
+import { LettermintError } from '../utils/errors';
 import { Endpoint } from './endpoint';
+import { EmailMessage } from './message';
 
 /**
  * Endpoint for sending emails
+ *
+ * Every fluent chain starts a new message, so emails built by concurrent
+ * requests never share recipients, subjects or attachments. The methods match
+ * those of `EmailMessage`, which documents them in detail.
+ *
+ * @example
+ * await email.from('sender@example.com').to('user@example.com').subject('Hi').send();
  */
 export class EmailEndpoint extends Endpoint {
   /**
-   * The email payload to be sent
+   * Start a new, independent email
+   *
+   * @example compose().from('sender@example.com').to('user@example.com').subject('Hi').send()
+   *
+   * @returns A new message builder
    */
-  private payload: EmailPayload = {
-    from: '',
-    to: [],
-    subject: '',
-  };
+  public compose(): EmailMessage {
+    return new EmailMessage(this.httpClient);
+  }
 
   /**
-   * The idempotency key for the request
+   * Start a new email with custom headers
    */
-  private idempotencyKeyValue?: string;
+  public headers(...args: Parameters<EmailMessage['headers']>): EmailMessage {
+    return this.compose().headers(...args);
+  }
 
   /**
-   * Set custom headers for the email
-   *
-   * @example headers({ 'X-Custom': 'Value' })
-   *
-   * @param headers The custom headers
-   * @returns The current instance for chaining
+   * Start a new email with an idempotency key
    */
-  public headers(headers: Record<string, string>): this {
-    this.payload.headers = headers;
-    return this;
+  public idempotencyKey(...args: Parameters<EmailMessage['idempotencyKey']>): EmailMessage {
+    return this.compose().idempotencyKey(...args);
   }
 
   /**
-   * Set the idempotency key for the request
-   *
-   * This helps prevent duplicate email sends when retrying failed requests.
-   * If you provide the same idempotency key for multiple requests, only the first one will be processed.
-   *
-   * @example idempotencyKey('unique-id-123')
-   *
-   * @param key A unique string to identify this request
-   * @returns The current instance for chaining
+   * Start a new email from a sender
    */
-  public idempotencyKey(key: string): this {
-    this.idempotencyKeyValue = key;
-    return this;
+  public from(...args: Parameters<EmailMessage['from']>): EmailMessage {
+    return this.compose().from(...args);
   }
 
   /**
-   * Set the sender email address
-   *
-   * Supports RFC 5322 addresses, e.g. <EMAIL>, <NAME> <<EMAIL>>.
-   *
-   * @example from('John Doe <john@example.com>')
-   * @example from('john@example.com')
-   *
-   * @param email The sender's email address
-   * @returns The current instance for chaining
+   * Start a new email to one or more recipients
    */
-  public from(email: string): this {
-    this.payload.from = email;
-    return this;
+  public to(...args: Parameters<EmailMessage['to']>): EmailMessage {
+    return this.compose().to(...args);
   }
 
   /**
-   * Set one or more recipient email addresses
-   *
-   * @example to('user1@example.com', 'user2@example.com')
-   *
-   * @param emails One or more recipient email addresses
-   * @returns The current instance for chaining
+   * Start a new email with a subject
    */
-  public to(...emails: string[]): this {
-    this.payload.to = emails;
-    return this;
+  public subject(...args: Parameters<EmailMessage['subject']>): EmailMessage {
+    return this.compose().subject(...args);
   }
 
   /**
-   * Set the subject of the email
-   *
-   * @param subject The subject line
-   * @returns The current instance for chaining
+   * Start a new email with an HTML body
    */
-  public subject(subject: string): this {
-    this.payload.subject = subject;
-    return this;
+  public html(...args: Parameters<EmailMessage['html']>): EmailMessage {
+    return this.compose().html(...args);
   }
 
   /**
-   * Set the HTML body of the email
-   *
-   * @param html The HTML content for the email body
-   * @returns The current instance for chaining
+   * Start a new email with a plain text body
    */
-  public html(html: string | null): this {
-    if (html !== null) {
-      this.payload.html = html;
-    }
-    return this;
+  public text(...args: Parameters<EmailMessage['text']>): EmailMessage {
+    return this.compose().text(...args);
   }
 
   /**
-   * Set the plain text body of the email
-   *
-   * @param text The plain text content for the email body
-   * @returns The current instance for chaining
+   * Start a new email with CC recipients
    */
-  public text(text: string | null): this {
-    if (text !== null) {
-      this.payload.text = text;
-    }
-    return this;
+  public cc(...args: Parameters<EmailMessage['cc']>): EmailMessage {
+    return this.compose().cc(...args);
   }
 
   /**
-   * Set one or more CC email addresses
-   *
-   * @example cc('cc1@example.com', 'cc2@example.com')
-   *
-   * @param emails Email addresses to be CC'd
-   * @returns The current instance for chaining
+   * Start a new email with BCC recipients
    */
-  public cc(...emails: string[]): this {
-    this.payload.cc = emails;
-    return this;
+  public bcc(...args: Parameters<EmailMessage['bcc']>): EmailMessage {
+    return this.compose().bcc(...args);
   }
 
   /**
-   * Set one or more BCC email addresses
-   *
-   * @example bcc('bcc1@example.com', 'bcc2@example.com')
-   *
-   * @param emails Email addresses to be BCC'd
-   * @returns The current instance for chaining
+   * Start a new email with Reply-To addresses
    */
-  public bcc(...emails: string[]): this {
-    this.payload.bcc = emails;
-    return this;
+  public replyTo(...args: Parameters<EmailMessage['replyTo']>): EmailMessage {
+    return this.compose().replyTo(...args);
   }
 
   /**
-   * Set one or more Reply-To email addresses
-   *
-   * @example replyTo('reply1@example.com', 'reply2@example.com')
-   *
-   * @param emails Reply-To email addresses
-   * @returns The current instance for chaining
+   * Start a new email on a route
    */
-  public replyTo(...emails: string[]): this {
-    this.payload.reply_to = emails;
-    return this;
+  public route(...args: Parameters<EmailMessage['route']>): EmailMessage {
+    return this.compose().route(...args);
   }
 
   /**
-   * Set the routing key for the email
-   *
-   * @param route The routing key
-   * @returns The current instance for chaining
+   * Start a new email with a base64 attachment
    */
-  public route(route: string): this {
-    this.payload.route = route;
-    return this;
+  public attach(...args: Parameters<EmailMessage['attach']>): EmailMessage {
+    return this.compose().attach(...args);
   }
 
   /**
-   * Attach a file to the email
-   *
-   * @param filename The attachment filename
-   * @param content The base64-encoded file content
-   * @param content_id The Content-ID for inline attachments (optional)
-   * @returns The current instance for chaining
+   * Start a new email with an attachment from raw contents
    */
-  public attach(filename: string, content: string, content_id?: string): this {
-    if (!this.payload.attachments) {
-      this.payload.attachments = [];
-    }
+  public attachBuffer(...args: Parameters<EmailMessage['attachBuffer']>): EmailMessage {
+    return this.compose().attachBuffer(...args);
+  }
 
-    this.payload.attachments.push({
-      filename,
-      content,
-      ...(content_id && { content_id }),
-    });
+  /**
+   * Start a new email with an attachment read from disk
+   */
+  public attachFile(...args: Parameters<EmailMessage['attachFile']>): EmailMessage {
+    return this.compose().attachFile(...args);
+  }
 
-    return this;
+  /**
+   * Start a new email with an attachment read from a stream
+   */
+  public attachStream(...args: Parameters<EmailMessage['attachStream']>): EmailMessage {
+    return this.compose().attachStream(...args);
   }
 
   /**
-   * Set metadata for the email
-   *
-   * @example metadata({ 'custom': 'value' })
-   *
-   * @param metadata The metadata object
-   * @returns The current instance for chaining
+   * Start a new email that rejects blocked attachment types
    */
-  public metadata(metadata: Record<string, string>): this {
-    this.payload.metadata = metadata;
-    return this;
+  public rejectBlockedFileTypes(
+    ...args: Parameters<EmailMessage['rejectBlockedFileTypes']>
+  ): EmailMessage {
+    return this.compose().rejectBlockedFileTypes(...args);
   }
 
   /**
-   * Set the tag for the email
-   *
-   * @example tag('campaign-123')
-   *
-   * @param key A string to categorize the email
-   * @returns The current instance for chaining
+   * Start a new email rendered from templates
    */
-  public tag(tag: string): this {
-    this.payload.tag = tag;
-    return this;
+  public template(...args: Parameters<EmailMessage['template']>): EmailMessage {
+    return this.compose().template(...args);
   }
 
   /**
-   * Send the composed email using the current payload
+   * Start a new email rendered from a React component
+   */
+  public react(...args: Parameters<EmailMessage['react']>): EmailMessage {
+    return this.compose().react(...args);
+  }
+
+  /**
+   * Start a new email filled from an RFC 5322 / MIME message
+   */
+  public fromEml(...args: Parameters<EmailMessage['fromEml']>): EmailMessage {
+    return this.compose().fromEml(...args);
+  }
+
+  /**
+   * Start a new email with metadata
+   */
+  public metadata(...args: Parameters<EmailMessage['metadata']>): EmailMessage {
+    return this.compose().metadata(...args);
+  }
+
+  /**
+   * Start a new email with a tag
+   */
+  public tag(...args: Parameters<EmailMessage['tag']>): EmailMessage {
+    return this.compose().tag(...args);
+  }
+
+  /**
+   * Former send of the shared draft, which no longer exists
+   *
+   * The fluent methods on the endpoint each start a new message, so calls that
+   * are not chained no longer add up to one email. Call `send()` on the message
+   * returned by the chain, or build it step by step with `compose()`.
    *
-   * @returns Promise resolving to the API response
-   * @throws Error on HTTP or API failure
+   * @deprecated Call `send()` on the message returned by `compose()` or a fluent method
+   * @returns A promise rejected with a `LettermintError` explaining the migration
    */
-  public async send(): Promise<SendEmailResponse> {
-    const config = this.idempotencyKeyValue
-      ? { headers: { 'Idempotency-Key': this.idempotencyKeyValue } }
-      : undefined;
+  public send(_options?: RequestOptions): Promise<SendEmailResponse> {
+    return Promise.reject(
+      new LettermintError(
+        'email.send() no longer sends a shared draft, as every fluent method starts a new message. ' +
+          'Call send() on the message returned by the chain, or build it with email.compose().'
+      )
+    );
+  }
 
-    try {
-      return await this.httpClient.post<SendEmailResponse>('/send', this.payload, config);
-    } finally {
-      this.reset();
-    }
+  public sendBatch(
+    payload: SendBatchMailRequest,
+    options?: RequestOptions
+  ): ApiPromise<SendBatchEmailResponse> {
+    return this.httpClient.post<SendBatchEmailResponse>('/send/batch', payload, options);
   }
 
-  public async sendBatch(payload: SendBatchMailRequest): Promise<SendBatchEmailResponse> {
-    return this.httpClient.post<SendBatchEmailResponse>('/send/batch', payload);
+  /**
+   * Send any number of emails, split into batch requests sent concurrently
+   *
+   * Failures are reported per item instead of failing the whole job.
+   *
+   * @example sendBulk(users.map((user) => ({ id: user.id, email: welcomeEmail(user) })))
+   *
+   * @param items The emails to send, each with the caller's own id
+   * @param options Chunk size, concurrency and per-call request options
+   * @returns The result of every item, in input order
+   */
+  public sendBulk(items: BulkItem[], options?: BulkSendOptions): Promise<BulkSendResult> {
+    return sendBulk(
+      (payload, requestOptions) => this.sendBatch(payload, requestOptions),
+      items,
+      options
+    );
   }
 
-  public async ping(): Promise<string> {
-    return (await this.httpClient.getRaw('/ping')).trim();
+  public ping(options?: RequestOptions): ApiPromise<string> {
+    return this.httpClient.getRaw('/ping', options).map((body) => body.trim());
   }
 
   /**
-   * Reset the payload and idempotency key to their initial state
+   * Download a file through the client's transport with its timeout, e.g. an attachment URL
+   *
+   * @param url Absolute http(s) URL of the file
+   * @param options Optional headers, timeout and signal
+   * @returns Promise resolving to the response, which may have a failed status
    */
-  private reset(): void {
-    this.payload = {
-      from: '',
-      to: [],
-      subject: '',
-    };
-    this.idempotencyKeyValue = undefined;
+  public download(url: string, options?: RequestOptions): Promise<Response> {
+    return this.httpClient.download(url, options);
   }
 }
@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { Lettermint } from '../lettermint';
+import { detectContentType } from '../utils/attachments';
+import { AttachmentError } from '../utils/errors';
+
+const mockFetch = jest.fn();
+
+const sentPayload = (call = 0) => JSON.parse(mockFetch.mock.calls[call][1].body);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({ message_id: 'msg_123', status: 'queued' }),
+  } as Response);
+});
+
+describe('EmailMessage attachments', () => {
+  const email = Lettermint.email('sending-token');
+  const pdf = Buffer.from('%PDF-1.4 test');
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'lettermint-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should encode buffers and detect their content type', async () => {
+    await email
+      .compose()
+      .from('sender@example.com')
+      .to('recipient@example.com')
+      .subject('Invoice')
+      .attachBuffer('invoice', pdf)
+      .attachBuffer('logo.png', Buffer.from('png'), { contentId: 'logo' })
+      .send();
+
+    expect(sentPayload().attachments).toEqual([
+      { filename: 'invoice', content: pdf.toString('base64'), content_type: 'application/pdf' },
+      {
+        filename: 'logo.png',
+        content: Buffer.from('png').toString('base64'),
+        content_type: 'image/png',
+        content_id: 'logo',
+      },
+    ]);
+  });
+
+  it('should read files and streams when sending, keeping the attachment order', async () => {
+    const path = join(directory, 'notes.txt');
+    writeFileSync(path, 'Hello from disk');
+
+    const message = email
+      .compose()
+      .from('sender@example.com')
+      .to('recipient@example.com')
+      .subject('Files')
+      .attachFile(path)
+      .attach('inline.txt', 'aW5saW5l')
+      .attachStream('export.csv', Readable.from(['a,b\n', '1,2\n']), { contentType: 'text/csv' });
+
+    mockFetch.mockResolvedValueOnce(new Response('{"message_id":"msg_456"}', { status: 202 }));
+
+    await expect(message.send().withResponse()).resolves.toMatchObject({
+      data: { message_id: 'msg_456' },
+      status: 202,
+    });
+    expect(sentPayload().attachments).toEqual([
+      {
+        filename: 'notes.txt',
+        content: Buffer.from('Hello from disk').toString('base64'),
+        content_type: 'text/plain',
+      },
+      { filename: 'inline.txt', content: 'aW5saW5l' },
+      {
+        filename: 'export.csv',
+        content: Buffer.from('a,b\n1,2\n').toString('base64'),
+        content_type: 'text/csv',
+      },
+    ]);
+  });
+
+  it('should share stream contents with clones', async () => {
+    const template = email
+      .compose()
+      .from('sender@example.com')
+      .subject('Report')
+      .attachStream('report.txt', Readable.from(['report']));
+
+    await template.clone().to('first@example.com').send();
+    await template.clone().to('second@example.com').send();
+
+    expect(sentPayload(0).attachments).toEqual(sentPayload(1).attachments);
+    expect(sentPayload(1).attachments[0].content).toBe(Buffer.from('report').toString('base64'));
+  });
+
+  it('should enforce the size limit', async () => {
+    expect(() =>
+      email.compose().attachBuffer('big.bin', Buffer.alloc(11), { maxSize: 10 })
+    ).toThrow(
+      new AttachmentError('Attachment big.bin exceeds the maximum size of 10 bytes', 'big.bin')
+    );
+
+    await expect(
+      email
+        .compose()
+        .attachStream('big.bin', Readable.from([Buffer.alloc(6), Buffer.alloc(6)]), { maxSize: 10 })
+        .send()
+    ).rejects.toBeInstanceOf(AttachmentError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject blocked file types before sending', async () => {
+    const blocked = { extensions: ['exe', '.bat'], mime_types: ['application/x-msdownload'] };
+
+    await expect(
+      email.compose().rejectBlockedFileTypes(blocked).attach('setup.EXE', 'TVo=').send()
+    ).rejects.toThrow('Attachment setup.EXE has a blocked file type');
+    await expect(
+      email
+        .compose()
+        .rejectBlockedFileTypes(blocked)
+        .attachBuffer('tool', Buffer.from('x'), { contentType: 'application/x-msdownload' })
+        .send()
+    ).rejects.toBeInstanceOf(AttachmentError);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await email.compose().rejectBlockedFileTypes(blocked).attach('notes.txt', 'aGk=').send();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to magic bytes and a generic content type', () => {
+    expect(detectContentType('scan', Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectContentType('data.bin', Buffer.from('??'))).toBe('application/octet-stream');
+    expect(detectContentType('Photo.JPG')).toBe('image/jpeg');
+  });
+});
@@ -0,0 +1,514 @@
+import { createReadStream } from 'node:fs';
+import { basename } from 'node:path';
+import { ApiPromise } from '../api-promise';
+import type { RequestConfig, RequestOptions } from '../client';
+import { parseEml } from '../mime';
+import { type ReactElementLike, type ReactRenderOptions, renderReact } from '../react';
+import { type EmailTemplate, type TemplateVariables, renderTemplate } from '../template';
+import type { BlockedFileTypesResponse, EmailPayload, SendEmailResponse } from '../types';
+import {
+  type Attachment,
+  type AttachmentOptions,
+  assertAllowedFileTypes,
+  createAttachment,
+  readStream,
+} from '../utils/attachments';
+import { Endpoint } from './endpoint';
+
+/**
+ * Attachment that is read when the message is sent
+ */
+interface PendingAttachment {
+  /**
+   * Position of the attachment's placeholder in the payload
+   */
+  index: number;
+  load: () => Promise<Attachment>;
+}
+
+/**
+ * Builder for a single email
+ *
+ * Each message holds its own payload, so messages composed concurrently
+ * never share recipients, subjects or attachments.
+ *
+ * @example
+ * await email.compose().from('sender@example.com').to('user@example.com').subject('Hi').send();
+ */
+export class EmailMessage extends Endpoint {
+  /**
+   * The email payload to be sent
+   */
+  protected payload: EmailPayload = {
+    from: '',
+    to: [],
+    subject: '',
+  };
+
+  /**
+   * The idempotency key for the request
+   */
+  protected idempotencyKeyValue?: string;
+
+  /**
+   * Attachments from files and streams, read when the message is sent
+   */
+  protected pendingAttachments: PendingAttachment[] = [];
+
+  /**
+   * File types to reject before the request is made
+   */
+  protected blockedFileTypes?: BlockedFileTypesResponse;
+
+  /**
+   * Set custom headers for the email
+   *
+   * @example headers({ 'X-Custom': 'Value' })
+   *
+   * @param headers The custom headers
+   * @returns The current instance for chaining
+   */
+  public headers(headers: Record<string, string>): this {
+    this.payload.headers = headers;
+    return this;
+  }
+
+  /**
+   * Set the idempotency key for the request
+   *
+   * This helps prevent duplicate email sends when retrying failed requests.
+   * If you provide the same idempotency key for multiple requests, only the first one will be processed.
+   *
+   * @example idempotencyKey('unique-id-123')
+   *
+   * @param key A unique string to identify this request
+   * @returns The current instance for chaining
+   */
+  public idempotencyKey(key: string): this {
+    this.idempotencyKeyValue = key;
+    return this;
+  }
+
+  /**
+   * Set the sender email address
+   *
+   * Supports RFC 5322 addresses, e.g. <EMAIL>, <NAME> <<EMAIL>>.
+   *
+   * @example from('John Doe <john@example.com>')
+   * @example from('john@example.com')
+   *
+   * @param email The sender's email address
+   * @returns The current instance for chaining
+   */
+  public from(email: string): this {
+    this.payload.from = email;
+    return this;
+  }
+
+  /**
+   * Set one or more recipient email addresses
+   *
+   * @example to('user1@example.com', 'user2@example.com')
+   *
+   * @param emails One or more recipient email addresses
+   * @returns The current instance for chaining
+   */
+  public to(...emails: string[]): this {
+    this.payload.to = emails;
+    return this;
+  }
+
+  /**
+   * Set the subject of the email
+   *
+   * @param subject The subject line
+   * @returns The current instance for chaining
+   */
+  public subject(subject: string): this {
+    this.payload.subject = subject;
+    return this;
+  }
+
+  /**
+   * Set the HTML body of the email
+   *
+   * @param html The HTML content for the email body
+   * @returns The current instance for chaining
+   */
+  public html(html: string | null): this {
+    if (html !== null) {
+      this.payload.html = html;
+    }
+    return this;
+  }
+
+  /**
+   * Set the plain text body of the email
+   *
+   * @param text The plain text content for the email body
+   * @returns The current instance for chaining
+   */
+  public text(text: string | null): this {
+    if (text !== null) {
+      this.payload.text = text;
+    }
+    return this;
+  }
+
+  /**
+   * Set one or more CC email addresses
+   *
+   * @example cc('cc1@example.com', 'cc2@example.com')
+   *
+   * @param emails Email addresses to be CC'd
+   * @returns The current instance for chaining
+   */
+  public cc(...emails: string[]): this {
+    this.payload.cc = emails;
+    return this;
+  }
+
+  /**
+   * Set one or more BCC email addresses
+   *
+   * @example bcc('bcc1@example.com', 'bcc2@example.com')
+   *
+   * @param emails Email addresses to be BCC'd
+   * @returns The current instance for chaining
+   */
+  public bcc(...emails: string[]): this {
+    this.payload.bcc = emails;
+    return this;
+  }
+
+  /**
+   * Set one or more Reply-To email addresses
+   *
+   * @example replyTo('reply1@example.com', 'reply2@example.com')
+   *
+   * @param emails Reply-To email addresses
+   * @returns The current instance for chaining
+   */
+  public replyTo(...emails: string[]): this {
+    this.payload.reply_to = emails;
+    return this;
+  }
+
+  /**
+   * Set the routing key for the email
+   *
+   * @param route The routing key
+   * @returns The current instance for chaining
+   */
+  public route(route: string): this {
+    this.payload.route = route;
+    return this;
+  }
+
+  /**
+   * Attach a file to the email
+   *
+   * @param filename The attachment filename
+   * @param content The base64-encoded file content
+   * @param content_id The Content-ID for inline attachments (optional)
+   * @returns The current instance for chaining
+   */
+  public attach(filename: string, content: string, content_id?: string): this {
+    if (!this.payload.attachments) {
+      this.payload.attachments = [];
+    }
+
+    this.payload.attachments.push({
+      filename,
+      content,
+      ...(content_id && { content_id }),
+    });
+
+    return this;
+  }
+
+  /**
+   * Attach raw contents, encoding them and detecting the content type
+   *
+   * @example attachBuffer('report.pdf', await renderPdf())
+   *
+   * @param filename The attachment filename
+   * @param content The raw file contents
+   * @param options Content type, Content-ID and size limit
+   * @returns The current instance for chaining
+   * @throws AttachmentError When the contents exceed the size limit
+   */
+  public attachBuffer(filename: string, content: Uint8Array, options?: AttachmentOptions): this {
+    if (!this.payload.attachments) {
+      this.payload.attachments = [];
+    }
+
+    this.payload.attachments.push(createAttachment(filename, content, options));
+
+    return this;
+  }
+
+  /**
+   * Attach a file from disk; the file is read when the message is sent
+   *
+   * @example attachFile('./invoices/2026-01.pdf', { filename: 'invoice.pdf' })
+   *
+   * @param path Path of the file
+   * @param options Filename (defaults to the file's name), content type, Content-ID and size limit
+   * @returns The current instance for chaining
+   */
+  public attachFile(path: string, options: AttachmentOptions & { filename?: string } = {}): this {
+    const filename = options.filename ?? basename(path);
+
+    return this.attachLater(
+      filename,
+      () => readStream(filename, createReadStream(path), options.maxSize),
+      options
+    );
+  }
+
+  /**
+   * Attach the contents of a stream; the stream is read when the message is sent
+   *
+   * @example attachStream('export.csv', response.body)
+   *
+   * @param filename The attachment filename
+   * @param stream A Node readable stream or any async iterable of chunks
+   * @param options Content type, Content-ID and size limit
+   * @returns The current instance for chaining
+   */
+  public attachStream(
+    filename: string,
+    stream: AsyncIterable<Uint8Array | string>,
+    options: AttachmentOptions = {}
+  ): this {
+    return this.attachLater(filename, () => readStream(filename, stream, options.maxSize), options);
+  }
+
+  /**
+   * Reject attachments the API would refuse before the request is made
+   *
+   * @example rejectBlockedFileTypes(await api.blockedFileTypes())
+   *
+   * @param blocked Blocked extensions and MIME types from `ApiClient.blockedFileTypes()`
+   * @returns The current instance for chaining
+   */
+  public rejectBlockedFileTypes(blocked: BlockedFileTypesResponse): this {
+    this.blockedFileTypes = blocked;
+    return this;
+  }
+
+  /**
+   * Render the subject, HTML and text from templates
+   *
+   * @example template({ subject: 'Hi {{name}}', html: '<p>Welcome, {{name}}!</p>' }, { name: 'John' })
+   *
+   * @param template The templates, with optional layout, partials and engine
+   * @param variables Variables available to the templates
+   * @returns The current instance for chaining
+   * @throws TemplateError When a template is malformed or uses an unknown partial
+   */
+  public template(template: EmailTemplate, variables: TemplateVariables = {}): this {
+    const { subject, html, text } = renderTemplate(template, variables);
+
+    if (subject !== undefined) {
+      this.subject(subject);
+    }
+
+    return this.html(html ?? null).text(text ?? null);
+  }
+
+  /**
+   * Render the HTML, and optionally the text, from a React component
+   *
+   * @example react(<WelcomeEmail name="John" />, { plainText: true })
+   *
+   * @param element The React element
+   * @param options Render options
+   * @returns The current instance for chaining
+   * @throws LettermintError When `react-dom` is not installed
+   */
+  public react(element: ReactElementLike, options: ReactRenderOptions = {}): this {
+    const { html, text } = renderReact(element, options);
+
+    this.html(html);
+
+    return text === undefined ? this : this.text(text);
+  }
+
+  /**
+   * Fill the message from an RFC 5322 / MIME message, e.g. an exported `.eml` file
+   *
+   * Parsed attachments are added after the ones already attached.
+   *
+   * @example fromEml(await readFile('./templates/welcome.eml'))
+   *
+   * @param source The raw message
+   * @returns The current instance for chaining
+   * @throws MimeError When a multipart part has no boundary
+   */
+  public fromEml(source: string | Uint8Array): this {
+    const { attachments, ...parsed } = parseEml(source);
+
+    this.payload = { ...this.payload, ...parsed };
+
+    if (attachments) {
+      this.payload.attachments = [...(this.payload.attachments ?? []), ...attachments];
+    }
+
+    return this;
+  }
+
+  /**
+   * Set metadata for the email
+   *
+   * @example metadata({ 'custom': 'value' })
+   *
+   * @param metadata The metadata object
+   * @returns The current instance for chaining
+   */
+  public metadata(metadata: Record<string, string>): this {
+    this.payload.metadata = metadata;
+    return this;
+  }
+
+  /**
+   * Set the tag for the email
+   *
+   * @example tag('campaign-123')
+   *
+   * @param key A string to categorize the email
+   * @returns The current instance for chaining
+   */
+  public tag(tag: string): this {
+    this.payload.tag = tag;
+    return this;
+  }
+
+  /**
+   * Get a copy of the payload that would be sent
+   *
+   * @returns The email payload
+   */
+  public toPayload(): EmailPayload {
+    // Attachments from files and streams have empty contents until the message is sent
+    return structuredClone(this.payload);
+  }
+
+  /**
+   * Create an independent copy of this message, e.g. to send a template to several recipients
+   *
+   * @returns A new message with the same payload and idempotency key
+   */
+  public clone(): EmailMessage {
+    const message = new EmailMessage(this.httpClient);
+    message.payload = this.toPayload();
+    message.idempotencyKeyValue = this.idempotencyKeyValue;
+    message.pendingAttachments = [...this.pendingAttachments];
+    message.blockedFileTypes = this.blockedFileTypes;
+
+    return message;
+  }
+
+  /**
+   * Send the email
+   *
+   * @param options Optional per-call request options
+   * @returns Promise resolving to the API response
+   * @throws Error on HTTP or API failure
+   */
+  public send(options?: RequestOptions): ApiPromise<SendEmailResponse> {
+    return this.dispatch(this.prepare(), this.requestConfig(options));
+  }
+
+  /**
+   * Snapshot the payload, reading pending attachments and checking blocked file types
+   *
+   * @returns The payload, or a promise for it when attachments still need to be read
+   */
+  protected prepare(): EmailPayload | Promise<EmailPayload> {
+    const payload = this.toPayload();
+    const pending = this.pendingAttachments;
+    const blocked = this.blockedFileTypes;
+
+    if (pending.length === 0 && !blocked) {
+      return payload;
+    }
+
+    return (async () => {
+      const attachments = payload.attachments ?? [];
+
+      await Promise.all(
+        pending.map(async ({ index, load }) => {
+          attachments[index] = await load();
+        })
+      );
+
+      if (blocked) {
+        assertAllowedFileTypes(attachments, blocked);
+      }
+
+      return payload;
+    })();
+  }
+
+  /**
+   * Send a prepared payload
+   */
+  protected dispatch(
+    payload: EmailPayload | Promise<EmailPayload>,
+    config: RequestConfig | undefined
+  ): ApiPromise<SendEmailResponse> {
+    if (payload instanceof Promise) {
+      return ApiPromise.defer(payload, (prepared) =>
+        this.httpClient.post<SendEmailResponse>('/send', prepared, config)
+      );
+    }
+
+    return this.httpClient.post<SendEmailResponse>('/send', payload, config);
+  }
+
+  /**
+   * Merge per-call options with the idempotency key header
+   */
+  protected requestConfig(options?: RequestOptions): RequestConfig | undefined {
+    if (!options && !this.idempotencyKeyValue) {
+      return undefined;
+    }
+
+    return {
+      ...options,
+      headers: {
+        ...options?.headers,
+        ...(this.idempotencyKeyValue && { 'Idempotency-Key': this.idempotencyKeyValue }),
+      },
+    };
+  }
+
+  /**
+   * Reserve the attachment's position and read it when the message is sent
+   */
+  private attachLater(
+    filename: string,
+    read: () => Promise<Buffer>,
+    options: AttachmentOptions
+  ): this {
+    if (!this.payload.attachments) {
+      this.payload.attachments = [];
+    }
+
+    let loaded: Promise<Attachment> | undefined;
+
+    this.pendingAttachments.push({
+      index: this.payload.attachments.length,
+      // Cloned messages share the read, as a stream can only be consumed once
+      load: () => {
+        loaded ??= read().then((content) => createAttachment(filename, content, options));
+        return loaded;
+      },
+    });
+    this.payload.attachments.push({ filename, content: '' });
+
+    return this;
+  }
+}
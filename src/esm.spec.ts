@@ -0,0 +1,88 @@
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { build } from 'tsup';
+
+// Optional peer dependencies must also load in the ESM build, where there is no `require`
+describe('ESM build', () => {
+  let directory: string;
+
+  const installPackage = async (name: string, source: string, file = 'index.js') => {
+    const path = join(directory, 'node_modules', name);
+
+    await mkdir(path, { recursive: true });
+    await writeFile(join(path, 'package.json'), JSON.stringify({ name, main: 'index.js' }));
+    await writeFile(join(path, file), source);
+  };
+
+  const run = async (script: string): Promise<string> => {
+    const path = join(directory, 'script.mjs');
+
+    await writeFile(path, script);
+    const { stdout } = await promisify(execFile)(process.execPath, [path], { cwd: directory });
+
+    return stdout.trim();
+  };
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lettermint-esm-'));
+
+    // Mirrors the ESM half of the build script
+    await build({
+      config: false,
+      entry: ['src/index.ts'],
+      format: ['esm'],
+      splitting: true,
+      shims: true,
+      target: 'es2020',
+      outDir: join(directory, 'dist'),
+      silent: true,
+    });
+  }, 60000);
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should trace requests with @opentelemetry/api', async () => {
+    await installPackage(
+      '@opentelemetry/api',
+      `const spans = (globalThis.spans = []);
+      const span = { setAttribute() {}, setStatus() {}, recordException() {}, end() {} };
+      const instrument = { record() {}, add() {} };
+      exports.trace = { getTracer: () => ({ startSpan: (name) => (spans.push(name), span) }) };
+      exports.metrics = { getMeter: () => ({ createHistogram: () => instrument, createCounter: () => instrument }) };`
+    );
+
+    const output = await run(
+      `import { LettermintClient } from './dist/index.mjs';
+      const client = new LettermintClient({
+        apiToken: 'api-token',
+        telemetry: true,
+        fetch: async () => new Response('{}', { status: 200 }),
+      });
+      await client.get('/domains');
+      console.log(JSON.stringify(globalThis.spans));`
+    );
+
+    expect(JSON.parse(output)).toEqual(['GET /domains']);
+  });
+
+  it('should render React emails with react-dom/server', async () => {
+    await installPackage(
+      'react-dom',
+      'exports.renderToStaticMarkup = (element) => element.type(element.props);',
+      'server.js'
+    );
+
+    const output = await run(
+      `import { renderReact } from './dist/index.mjs';
+      const Welcome = ({ name }) => '<p>Welcome, ' + name + '</p>';
+      console.log(renderReact({ type: Welcome, props: { name: 'John' }, key: null }).html);`
+    );
+
+    expect(output).toBe('<p>Welcome, John</p>');
+  });
+});
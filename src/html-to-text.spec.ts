@@ -0,0 +1,128 @@
+import { htmlToText } from './html-to-text';
+import { Lettermint } from './lettermint';
+
+const mockFetch = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({ message_id: 'msg_123', status: 'queued' }),
+  } as Response);
+});
+
+const sentBody = (call = 0) => JSON.parse(mockFetch.mock.calls[call][1].body);
+
+describe('htmlToText', () => {
+  it('should collapse whitespace and separate paragraphs', () => {
+    expect(htmlToText('<p>Hello\n   <b>world</b>!</p>  <div>Second<br>line</div>')).toBe(
+      'Hello world!\n\nSecond\nline'
+    );
+  });
+
+  it('should underline headings', () => {
+    expect(htmlToText('<h1>Title</h1><h2>Section</h2><h3>Details</h3>')).toBe(
+      'Title\n=====\n\nSection\n-------\n\nDetails'
+    );
+  });
+
+  it('should number links as footnotes', () => {
+    expect(
+      htmlToText(
+        '<p>Read <a href="https://example.com/a">this</a> and <a href="https://example.com/b">that</a>, ' +
+          'or <a href="https://example.com/a">this again</a>.</p>' +
+          '<p><a href="https://example.com">https://example.com</a> <a href="mailto:hi@example.com">hi@example.com</a> <a href="#top">Top</a></p>'
+      )
+    ).toBe(
+      'Read this [1] and that [2], or this again [1].\n\n' +
+        'https://example.com hi@example.com Top\n\n' +
+        '[1] https://example.com/a\n[2] https://example.com/b'
+    );
+  });
+
+  it('should render nested and ordered lists', () => {
+    expect(
+      htmlToText(
+        '<p>Steps:</p><ol start="3"><li>Sign up<li>Verify<ul><li>Domain</li><li>Route</li></ul></li></ol><p>Done</p>'
+      )
+    ).toBe('Steps:\n\n3. Sign up\n4. Verify\n  * Domain\n  * Route\n\nDone');
+  });
+
+  it('should render table rows with separated cells', () => {
+    expect(
+      htmlToText(
+        '<table><thead><tr><th>Item</th><th>Price</th></tr></thead>' +
+          '<tbody><tr><td>Coffee</td><td>&euro;3</td></tr><tr><td>Tea &amp; cake</td><td>&#8364;5</td></tr></tbody></table>'
+      )
+    ).toBe('Item | Price\nCoffee | &euro;3\nTea & cake | €5');
+  });
+
+  it('should render layout tables as blocks', () => {
+    expect(
+      htmlToText(
+        '<table><tr><td><h1>Welcome</h1><p>Thanks for joining.</p></td></tr>' +
+          '<tr><td><table><tr><td><p>Left</p></td><td><p>Right</p></td></tr></table></td></tr>' +
+          '<tr><td><p>Footer</p></td></tr></table>'
+      )
+    ).toBe('Welcome\n=======\n\nThanks for joining.\n\nLeft\n\nRight\n\nFooter');
+  });
+
+  it('should render tables without header or block content as data', () => {
+    expect(htmlToText('<table><tr><td>Total</td><td><b>€8</b></td></tr></table>')).toBe(
+      'Total | €8'
+    );
+    expect(htmlToText('<table><tr><th>Plan</th><td><p>Pro</p></td></tr></table><p>After</p>')).toBe(
+      'Plan | Pro\n\nAfter'
+    );
+  });
+
+  it('should quote blockquotes and keep preformatted text', () => {
+    expect(htmlToText('<blockquote><p>Quoted</p><p>Twice</p></blockquote><pre>a\n  b</pre>')).toBe(
+      '> Quoted\n>\n> Twice\n\na\n  b'
+    );
+  });
+
+  it('should skip head, styles, scripts and comments', () => {
+    expect(
+      htmlToText(
+        '<!doctype html><html><head><title>T</title><style>p{}</style></head>' +
+          '<body><!-- hidden --><script>alert(1)</script><img src="x.png" alt="Logo"><p>Body</p></body></html>'
+      )
+    ).toBe('[Logo]\n\nBody');
+  });
+});
+
+describe('textFromHtml option', () => {
+  it('should add a text body to sends with only html', async () => {
+    const email = Lettermint.email('sending-token', { textFromHtml: true });
+
+    await email.from('a@example.com').to('b@example.com').subject('Hi').html('<h1>Hi</h1>').send();
+    await email
+      .from('a@example.com')
+      .to('b@example.com')
+      .subject('Hi')
+      .html('<p>Hi</p>')
+      .text('Custom')
+      .send();
+    await email.sendBatch([
+      { from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', html: '<p>One</p>' },
+      { from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', text: 'Two' },
+    ]);
+
+    expect(sentBody(0).text).toBe('Hi\n==');
+    expect(sentBody(1).text).toBe('Custom');
+    expect(sentBody(2).map((entry: { text?: string }) => entry.text)).toEqual(['One', 'Two']);
+  });
+
+  it('should leave the text body alone without the option', async () => {
+    await Lettermint.email('sending-token')
+      .from('a@example.com')
+      .to('b@example.com')
+      .subject('Hi')
+      .html('<p>Hi</p>')
+      .send();
+
+    expect(sentBody()).not.toHaveProperty('text');
+  });
+});
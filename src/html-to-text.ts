@@ -0,0 +1,413 @@
+import type { Middleware } from './middleware';
+
+interface Element {
+  name: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = Element | string;
+
+interface RenderContext {
+  links: string[];
+  listDepth: number;
+  preformatted: boolean;
+}
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!doctype[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+|<)/gi;
+
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const IGNORED_ELEMENTS = new Set(['head', 'noscript', 'script', 'style', 'template', 'title']);
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'aside',
+  'center',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'header',
+  'main',
+  'nav',
+  'p',
+  'section',
+]);
+
+/**
+ * Elements that make a table cell hold a layout block rather than a value
+ */
+const BLOCK_CONTENT = new Set([
+  ...BLOCK_ELEMENTS,
+  'blockquote',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'ol',
+  'pre',
+  'table',
+  'ul',
+]);
+
+/**
+ * Elements implicitly closed when a sibling of one of the listed names opens
+ */
+const IMPLICITLY_CLOSED: Record<string, string[]> = {
+  li: ['li'],
+  p: ['p', 'div', 'ul', 'ol', 'table', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote'],
+  td: ['td', 'th', 'tr'],
+  th: ['td', 'th', 'tr'],
+  tr: ['tr'],
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  copy: '©',
+  gt: '>',
+  hellip: '…',
+  laquo: '«',
+  ldquo: '“',
+  lsquo: '‘',
+  lt: '<',
+  mdash: '—',
+  nbsp: ' ',
+  ndash: '–',
+  quot: '"',
+  raquo: '»',
+  rdquo: '”',
+  reg: '®',
+  rsquo: '’',
+  trade: '™',
+};
+
+/**
+ * Marks intentional leading whitespace (list indentation, quotes, preformatted text)
+ */
+const INDENT = '\u0001';
+
+/**
+ * Derive a readable plain-text body from HTML
+ *
+ * Headings are underlined, lists are bulleted or numbered, the cells of data
+ * tables are separated by `|` and links are numbered with their URLs listed at
+ * the end. Layout tables, which have no header cells and hold blocks such as
+ * paragraphs in their cells, are rendered as a sequence of blocks.
+ *
+ * @example htmlToText('<h1>Hi</h1><p>Read <a href="https://example.com">more</a></p>')
+ * // 'Hi\n==\n\nRead more [1]\n\n[1] https://example.com'
+ *
+ * @param html The HTML body
+ * @returns The plain-text body
+ */
+export function htmlToText(html: string): string {
+  const context: RenderContext = { links: [], listDepth: 0, preformatted: false };
+  const body = normalize(renderChildren(parse(html), context));
+  const footnotes = context.links.map((href, index) => `[${index + 1}] ${href}`).join('\n');
+
+  return [body, footnotes].filter(Boolean).join('\n\n').split(INDENT).join(' ');
+}
+
+/**
+ * Middleware adding a plain-text body derived from the HTML to sends without one
+ *
+ * Enabled with the `textFromHtml` client option.
+ *
+ * @returns The middleware
+ */
+export function textFromHtml(): Middleware {
+  const withText = (email: unknown) => {
+    const payload = email as { html?: unknown; text?: unknown } | null;
+
+    if (typeof payload !== 'object' || payload === null || typeof payload.html !== 'string') {
+      return email;
+    }
+
+    if (typeof payload.text === 'string' && payload.text !== '') {
+      return email;
+    }
+
+    return { ...payload, text: htmlToText(payload.html) };
+  };
+
+  return {
+    onRequest(context) {
+      if (context.method !== 'POST') {
+        return;
+      }
+
+      if (context.path === '/send') {
+        context.body = withText(context.body);
+      } else if (context.path === '/send/batch' && Array.isArray(context.body)) {
+        context.body = context.body.map(withText);
+      }
+    },
+  };
+}
+
+function parse(html: string): HtmlNode[] {
+  const root: Element = { name: '#root', attributes: {}, children: [] };
+  const stack: Element[] = [root];
+
+  for (const [token, closing, tagName, attributes, text] of html.matchAll(TOKEN)) {
+    if (text !== undefined) {
+      stack[stack.length - 1].children.push(decodeEntities(text));
+      continue;
+    }
+
+    if (tagName === undefined) {
+      continue; // comment or doctype
+    }
+
+    const name = tagName.toLowerCase();
+
+    if (closing) {
+      const index = stack.map((element) => element.name).lastIndexOf(name);
+
+      if (index > 0) {
+        stack.length = index;
+      }
+
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+
+    if (IMPLICITLY_CLOSED[current.name]?.includes(name)) {
+      stack.pop();
+    }
+
+    const element: Element = { name, attributes: parseAttributes(attributes), children: [] };
+    stack[stack.length - 1].children.push(element);
+
+    if (!VOID_ELEMENTS.has(name) && !token.endsWith('/>')) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+function renderChildren(nodes: HtmlNode[], context: RenderContext): string {
+  return nodes.map((node) => render(node, context)).join('');
+}
+
+function render(node: HtmlNode, context: RenderContext): string {
+  if (typeof node === 'string') {
+    return context.preformatted
+      ? node.replace(/^[ \t]+/gm, (indent) => INDENT.repeat(indent.length))
+      : node.replace(/\s+/g, ' ');
+  }
+
+  const { name } = node;
+
+  if (IGNORED_ELEMENTS.has(name)) {
+    return '';
+  }
+
+  if (name === 'br') {
+    return '\n';
+  }
+
+  if (name === 'hr') {
+    return '\n\n---\n\n';
+  }
+
+  if (name === 'img') {
+    return node.attributes.alt ? `[${node.attributes.alt}]` : '';
+  }
+
+  if (name === 'a') {
+    return renderLink(node, context);
+  }
+
+  if (/^h[1-6]$/.test(name)) {
+    const text = inline(renderChildren(node.children, context));
+    const underline = name === 'h1' ? '=' : name === 'h2' ? '-' : '';
+
+    return `\n\n${text}${underline && `\n${underline.repeat(text.length)}`}\n\n`;
+  }
+
+  if (name === 'ul' || name === 'ol') {
+    return renderList(node, context);
+  }
+
+  if (name === 'table') {
+    return renderTable(node, context);
+  }
+
+  if (name === 'blockquote') {
+    const quoted = normalize(renderChildren(node.children, context))
+      .split('\n')
+      .map((line) => (line ? `>${INDENT}${line}` : '>'))
+      .join('\n');
+
+    return `\n\n${quoted}\n\n`;
+  }
+
+  if (name === 'pre') {
+    const text = renderChildren(node.children, { ...context, preformatted: true });
+
+    return `\n\n${text.replace(/^\n|\n$/g, '')}\n\n`;
+  }
+
+  const content = renderChildren(node.children, context);
+
+  return BLOCK_ELEMENTS.has(name) ? `\n\n${content}\n\n` : content;
+}
+
+function renderLink(node: Element, context: RenderContext): string {
+  const text = inline(renderChildren(node.children, context));
+  const href = node.attributes.href?.trim();
+
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href)) {
+    return text;
+  }
+
+  if (!text) {
+    return href;
+  }
+
+  if (text === href || `mailto:${text}` === href || `tel:${text}` === href) {
+    return text;
+  }
+
+  const existing = context.links.indexOf(href);
+  const number = existing === -1 ? context.links.push(href) : existing + 1;
+
+  return `${text} [${number}]`;
+}
+
+function renderList(node: Element, context: RenderContext): string {
+  const ordered = node.name === 'ol';
+  const nested = { ...context, listDepth: context.listDepth + 1 };
+  const indent = INDENT.repeat(context.listDepth * 2);
+  let number = Number(node.attributes.start) || 1;
+
+  const items = node.children
+    .filter((child): child is Element => typeof child !== 'string' && child.name === 'li')
+    .map((item) => {
+      const marker = ordered ? `${number++}.` : '*';
+      const [first = '', ...rest] = normalize(renderChildren(item.children, nested)).split('\n');
+
+      return [`${indent}${marker} ${first}`, ...rest].join('\n');
+    });
+
+  return `${context.listDepth === 0 ? '\n\n' : '\n'}${items.join('\n')}\n${context.listDepth === 0 ? '\n' : ''}`;
+}
+
+function renderTable(node: Element, context: RenderContext): string {
+  const rows = tableRows(node);
+  const cells = rows.flat();
+
+  if (!cells.some((cell) => cell.name === 'th') && cells.some(hasBlockContent)) {
+    return cells.map((cell) => `\n\n${renderChildren(cell.children, context)}\n\n`).join('');
+  }
+
+  const lines = rows
+    .map((row) => row.map((cell) => inline(renderChildren(cell.children, context))))
+    .filter((row) => row.some(Boolean))
+    .map((row) => row.join(' | '));
+
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Collect the cells of every row of a table, leaving nested tables to their cells
+ */
+function tableRows(element: Element): Element[][] {
+  return element.children.flatMap((child) => {
+    if (typeof child === 'string' || child.name === 'table') {
+      return [];
+    }
+
+    if (child.name === 'tr') {
+      return [
+        child.children.filter(
+          (cell): cell is Element =>
+            typeof cell !== 'string' && (cell.name === 'td' || cell.name === 'th')
+        ),
+      ];
+    }
+
+    return tableRows(child);
+  });
+}
+
+function hasBlockContent(element: Element): boolean {
+  return element.children.some(
+    (child) =>
+      typeof child !== 'string' && (BLOCK_CONTENT.has(child.name) || hasBlockContent(child))
+  );
+}
+
+/**
+ * Collapse rendered text onto a single line
+ */
+function inline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Trim every line and collapse runs of blank lines
+ */
+function normalize(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^[ \t]+|[ \t]+$/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+  }
+
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X'
+          ? Number.parseInt(code.slice(2), 16)
+          : Number(code.slice(1));
+
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
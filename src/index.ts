@@ -1,7 +1,44 @@
+export * from './api-promise';
+export type {
+  BatchEmail,
+  BulkItem,
+  BulkItemResult,
+  BulkSendOptions,
+  BulkSendResult,
+} from './batch';
 export * from './client';
 export * from './endpoints/endpoint';
 export * from './endpoints/email';
+export * from './endpoints/message';
 export * from './endpoints/api';
+export * from './html-to-text';
+export * from './middleware';
+export { type EmlOptions, parseEml, toEml } from './mime';
+export * from './nodemailer';
+export {
+  type CapturedEmail,
+  type ClientMode,
+  DEFAULT_OUTBOX_DIRECTORY,
+  FileOutbox,
+  MemoryOutbox,
+  type OutboxStore,
+} from './outbox/outbox';
+export * from './outbox/preview';
+export * from './pagination';
+export * from './react';
+export type { MeterLike, SpanLike, TelemetryConfig, TracerLike } from './telemetry';
+export * from './template';
 export * from './types';
+export {
+  type Attachment,
+  type AttachmentOptions,
+  DEFAULT_MAX_ATTACHMENT_SIZE,
+  detectContentType,
+} from './utils/attachments';
+export type { LogLevel, LogStyle, Logger, RedactConfig } from './utils/logger';
 export * from './utils/errors';
+export * from './validation';
+export * from './webhooks/adapters';
+export * from './webhooks/events';
+export * from './webhooks/webhook';
 export * from './lettermint';
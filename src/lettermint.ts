@@ -1,4 +1,5 @@
-import { LettermintClient, type LettermintClientConfig } from './client';
+import type { ApiPromise } from './api-promise';
+import { LettermintClient, type LettermintClientConfig, type RequestOptions } from './client';
 import {
   DomainsEndpoint,
   MessagesEndpoint,
@@ -10,6 +11,7 @@ import {
   WebhooksEndpoint,
 } from './endpoints/api';
 import { EmailEndpoint } from './endpoints/email';
+import type { Middleware } from './middleware';
 import type * as Types from './types';
 
 /**
@@ -36,6 +38,17 @@ export class Lettermint {
     this.email = new EmailEndpoint(this.client);
   }
 
+  /**
+   * Register middleware that runs around every request
+   *
+   * @param middleware The middleware to append to the chain
+   * @returns The current instance for chaining
+   */
+  public use(middleware: Middleware): this {
+    this.client.use(middleware);
+    return this;
+  }
+
   public static email(
     apiToken: string,
     config?: Omit<LettermintClientConfig, 'apiToken' | 'authMode'>
@@ -78,12 +91,23 @@ export class ApiClient {
     this.webhooks = new WebhooksEndpoint(this.client);
   }
 
-  public async ping(): Promise<string> {
-    return (await this.client.getRaw('/ping')).trim();
+  /**
+   * Register middleware that runs around every request of every endpoint group
+   *
+   * @param middleware The middleware to append to the chain
+   * @returns The current instance for chaining
+   */
+  public use(middleware: Middleware): this {
+    this.client.use(middleware);
+    return this;
+  }
+
+  public ping(options?: RequestOptions): ApiPromise<string> {
+    return this.client.getRaw('/ping', options).map((body) => body.trim());
   }
 
-  public async blockedFileTypes(): Promise<Types.BlockedFileTypesResponse> {
-    return this.client.get('/blocked-file-types');
+  public blockedFileTypes(options?: RequestOptions): ApiPromise<Types.BlockedFileTypesResponse> {
+    return this.client.get('/blocked-file-types', options);
   }
 }
 
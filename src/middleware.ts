@@ -0,0 +1,88 @@
+/**
+ * Mutable description of a single request attempt, shared by all middleware
+ */
+export interface RequestContext {
+  /**
+   * HTTP method
+   */
+  method: string;
+
+  /**
+   * Full request URL, including query parameters
+   */
+  url: string;
+
+  /**
+   * API endpoint path as passed to the client, e.g. `/send`
+   */
+  readonly path: string;
+
+  /**
+   * Request headers
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request payload before it is serialized to JSON
+   */
+  body?: unknown;
+
+  /**
+   * Attempt number, starting at 1
+   */
+  readonly attempt: number;
+}
+
+/**
+ * Ask the client to send the request again
+ */
+export interface RetryRequest {
+  retry: true;
+}
+
+/**
+ * Value a middleware hook may return to change the outcome of a request
+ *
+ * Returning a `Response` replaces the response (or, from `onRequest`, skips the
+ * network call), returning `{ retry: true }` sends the request again, and
+ * returning nothing leaves the request untouched.
+ */
+export type MiddlewareResult = Response | RetryRequest | undefined;
+
+/**
+ * A middleware hook, which may also return nothing
+ */
+type Hook<Args extends unknown[], T> =
+  | ((...args: Args) => T | Promise<T>)
+  | ((...args: Args) => void)
+  | ((...args: Args) => Promise<void>);
+
+/**
+ * Hooks that run around every request made by a client
+ *
+ * Middleware runs in registration order. The context is created per attempt, so
+ * retried requests pass through `onRequest` again. Retries requested by middleware
+ * wait for the backoff of the retry policy and count against its `maxAttempts`
+ * (3 when the client has no retry policy); once they are used up the request fails.
+ */
+export interface Middleware {
+  /**
+   * Called before a request is sent
+   *
+   * The context may be mutated to change the URL, headers or payload. Return a
+   * `Response` to short-circuit the request without calling the API.
+   */
+  onRequest?: Hook<[context: RequestContext], Response | undefined>;
+
+  /**
+   * Called with every response, including unsuccessful ones, before errors are raised
+   */
+  onResponse?: Hook<[response: Response, context: RequestContext], MiddlewareResult>;
+
+  /**
+   * Called when a request fails after the retry policy has given up
+   *
+   * Return a `Response` to recover from the error or `{ retry: true }` to try again.
+   */
+  onError?: Hook<[error: unknown, context: RequestContext], MiddlewareResult>;
+}
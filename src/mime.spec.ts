@@ -0,0 +1,200 @@
+import { Lettermint } from './lettermint';
+import { parseEml, toEml } from './mime';
+import type { EmailPayload } from './types';
+import { MimeError } from './utils/errors';
+
+const mockFetch = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({ message_id: 'msg_123', status: 'queued' }),
+  } as Response);
+});
+
+const eml = (...lines: string[]) => lines.join('\r\n');
+
+describe('parseEml', () => {
+  it('should parse a multipart message with alternatives, inline images and attachments', () => {
+    const source = eml(
+      'Received: from mx.example.com by mx.other.com',
+      'From: =?UTF-8?B?SsO2cmc=?= <jorg@example.com>',
+      'To: "Doe, John" <john@example.com>, jane@example.com',
+      'Cc: undisclosed-recipients:;',
+      'Reply-To: support@example.com',
+      'Subject: =?UTF-8?Q?Gr=C3=BC=C3=9Fe?= =?UTF-8?Q?_aus_?=',
+      ' =?UTF-8?B?S8O2bG4=?=',
+      'Date: Mon, 19 Oct 2026 10:00:00 +0000',
+      'Message-ID: <abc@example.com>',
+      'MIME-Version: 1.0',
+      'X-Campaign: autumn',
+      'Content-Type: multipart/mixed; boundary="mixed"',
+      '',
+      'This is a multi-part message in MIME format.',
+      '--mixed',
+      'Content-Type: multipart/related; boundary=related',
+      '',
+      '--related',
+      'Content-Type: multipart/alternative; boundary="alt"',
+      '',
+      '--alt',
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Hallo J=F6rg, this line is soft =',
+      'wrapped.',
+      'Second line',
+      '--alt',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('<p>Hallo Jörg <img src="cid:logo@example"></p>').toString('base64'),
+      '--alt--',
+      '--related',
+      'Content-Type: image/png',
+      'Content-Transfer-Encoding: base64',
+      'Content-ID: <logo@example>',
+      'Content-Disposition: inline',
+      '',
+      'iVBORw0KGgo=',
+      '--related--',
+      '--mixed',
+      'Content-Type: application/pdf',
+      'Content-Disposition: attachment;',
+      " filename*=UTF-8''Rechnung%20M%C3%A4rz.pdf",
+      'Content-Transfer-Encoding: base64',
+      '',
+      'JVBERi0xLjQ=',
+      '--mixed--',
+      ''
+    );
+
+    expect(parseEml(source)).toEqual({
+      from: 'Jörg <jorg@example.com>',
+      to: ['"Doe, John" <john@example.com>', 'jane@example.com'],
+      reply_to: ['support@example.com'],
+      subject: 'Grüße aus Köln',
+      headers: { 'X-Campaign': 'autumn' },
+      text: 'Hallo Jörg, this line is soft wrapped.\nSecond line',
+      html: '<p>Hallo Jörg <img src="cid:logo@example"></p>',
+      attachments: [
+        {
+          filename: 'logo@example',
+          content: 'iVBORw0KGgo=',
+          content_type: 'image/png',
+          content_id: 'logo@example',
+        },
+        { filename: 'Rechnung März.pdf', content: 'JVBERi0xLjQ=', content_type: 'application/pdf' },
+      ],
+    });
+  });
+
+  it('should parse a single-part message from bytes', () => {
+    const source = Buffer.from(
+      'From: a@example.com\nTo: b@example.com\nSubject: Plain\n\nHällo\nthere\n',
+      'utf8'
+    );
+
+    expect(parseEml(source)).toEqual({
+      from: 'a@example.com',
+      to: ['b@example.com'],
+      subject: 'Plain',
+      text: 'Hällo\nthere',
+    });
+  });
+
+  it('should reject multipart messages without a boundary', () => {
+    expect(() =>
+      parseEml(eml('From: a@example.com', 'Content-Type: multipart/mixed', '', 'body'))
+    ).toThrow(new MimeError('Multipart part of type multipart/mixed has no boundary'));
+  });
+});
+
+describe('toEml', () => {
+  const payload: EmailPayload = {
+    from: 'Jörg Müller <jorg@example.com>',
+    to: ['john@example.com', 'Jane <jane@example.com>'],
+    cc: ['cc@example.com'],
+    reply_to: ['support@example.com'],
+    subject: 'Grüße aus Köln',
+    headers: { 'X-Campaign': 'autumn' },
+    text: `Hallo Jörg,\n${'a long line of text '.repeat(6)}\nbye `,
+    html: '<p>Hallo <img src="cid:logo"></p>',
+    tag: 'welcome',
+    attachments: [
+      {
+        filename: 'logo.png',
+        content: 'iVBORw0KGgo=',
+        content_type: 'image/png',
+        content_id: 'logo',
+      },
+      { filename: 'März.pdf', content: 'JVBERi0xLjQ=', content_type: 'application/pdf' },
+    ],
+  };
+
+  it('should render a standards-compliant message', () => {
+    const message = toEml(payload, {
+      date: new Date('2026-10-19T10:00:00Z'),
+      messageId: 'preview@example.com',
+    });
+
+    expect(message).toContain('From: =?UTF-8?B?SsO2cmcgTcO8bGxlcg==?= <jorg@example.com>\r\n');
+    expect(message).toContain('To: john@example.com, Jane <jane@example.com>\r\n');
+    expect(message).toContain('Subject: =?UTF-8?B?R3LDvMOfZSBhdXMgS8O2bG4=?=\r\n');
+    expect(message).toContain('Date: Mon, 19 Oct 2026 10:00:00 +0000\r\n');
+    expect(message).toContain('Message-ID: <preview@example.com>\r\n');
+    expect(message).toContain('X-Campaign: autumn\r\n');
+    expect(message).toMatch(/Content-Type: multipart\/mixed;\s+boundary="lettermint-/);
+    expect(message).toMatch(/Content-Type: multipart\/related;\s+boundary="lettermint-/);
+    expect(message).toMatch(/Content-Type: multipart\/alternative;\s+boundary="lettermint-/);
+    expect(message).toContain("filename*=UTF-8''M%C3%A4rz.pdf");
+    expect(message).toContain('Content-ID: <logo>');
+    expect(message).toContain('Hallo J=C3=B6rg,\r\n');
+    expect(message).toContain('bye=20\r\n');
+    expect(message).not.toContain('welcome');
+    expect(message.split('\r\n').every((line) => line.length <= 78)).toBe(true);
+    expect(message).not.toMatch(/[^\r]\n/);
+  });
+
+  it('should round-trip through parseEml', () => {
+    const { tag, ...withoutTag } = payload;
+
+    expect(tag).toBe('welcome');
+    expect(parseEml(toEml(payload))).toEqual(withoutTag);
+  });
+
+  it('should render a single text part without attachments', () => {
+    const message = toEml({
+      from: 'a@example.com',
+      to: ['b@example.com'],
+      subject: 'Hi',
+      text: 'Hi',
+    });
+
+    expect(message).toMatch(/Content-Type: text\/plain; charset=utf-8\r\n/);
+    expect(message).toMatch(/Message-ID: <[0-9a-f-]+@example\.com>/);
+    expect(message.endsWith('\r\n\r\nHi\r\n')).toBe(true);
+  });
+});
+
+describe('fromEml', () => {
+  it('should send the parsed message', async () => {
+    await Lettermint.email('sending-token')
+      .compose()
+      .attach('first.txt', 'Zmlyc3Q=')
+      .fromEml(eml('From: a@example.com', 'To: b@example.com', 'Subject: Hi', '', 'Hello'))
+      .tag('imported')
+      .send();
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      from: 'a@example.com',
+      to: ['b@example.com'],
+      subject: 'Hi',
+      text: 'Hello',
+      tag: 'imported',
+      attachments: [{ filename: 'first.txt', content: 'Zmlyc3Q=' }],
+    });
+  });
+});
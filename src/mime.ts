@@ -0,0 +1,666 @@
+import { randomUUID } from 'node:crypto';
+import type { EmailPayload } from './types';
+import type { Attachment } from './utils/attachments';
+import { MimeError } from './utils/errors';
+import { RESERVED_HEADERS } from './validation';
+
+/**
+ * Options for rendering an email payload as an `.eml` message
+ */
+export interface EmlOptions {
+  /**
+   * Value of the Date header (defaults to now)
+   */
+  date?: Date;
+
+  /**
+   * Value of the Message-ID header (defaults to a random id at the sender's domain)
+   */
+  messageId?: string;
+}
+
+type Headers = Array<[name: string, value: string]>;
+
+interface Entity {
+  headers: Headers;
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const CRLF = '\r\n';
+
+const MAX_LINE_LENGTH = 78;
+
+/**
+ * Headers describing the message structure or its transport rather than its content
+ */
+const STRUCTURAL_HEADERS = new Set([
+  'arc-authentication-results',
+  'arc-message-signature',
+  'arc-seal',
+  'authentication-results',
+  'delivered-to',
+  'received-spf',
+  'x-received',
+]);
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+const ENCODED_WORD_RUN = /=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=(?:\s*=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)*/g;
+
+/**
+ * Convert an RFC 5322 / MIME message into an email payload
+ *
+ * Text/plain and text/html parts without a filename become the bodies, all
+ * other parts become attachments (inline parts keep their Content-ID). Custom
+ * headers are kept; structural, transport and API-managed headers are dropped.
+ *
+ * @example await email.sendBatch([parseEml(await readFile('welcome.eml'))])
+ *
+ * @param source The raw message
+ * @returns The email payload
+ * @throws MimeError When a multipart part has no boundary
+ */
+export function parseEml(source: string | Uint8Array): EmailPayload {
+  // Work on the raw bytes, so 8-bit parts can be decoded with their own charset
+  const raw = (typeof source === 'string' ? Buffer.from(source, 'utf8') : Buffer.from(source))
+    .toString('latin1')
+    .replace(/\r?\n$/, '');
+  const entity = parseEntity(raw);
+  const header = (name: string) => findHeader(entity.headers, name);
+  const payload: EmailPayload = {
+    from: parseAddresses(header('from') ?? '')[0] ?? '',
+    to: parseAddresses(header('to') ?? ''),
+    subject: decodeHeader(header('subject') ?? '').trim(),
+  };
+
+  for (const [field, name] of [
+    ['cc', 'cc'],
+    ['bcc', 'bcc'],
+    ['reply_to', 'reply-to'],
+  ] as const) {
+    const addresses = parseAddresses(header(name) ?? '');
+
+    if (addresses.length > 0) {
+      payload[field] = addresses;
+    }
+  }
+
+  const headers: Record<string, string> = {};
+
+  for (const [name, value] of entity.headers) {
+    const lower = name.toLowerCase();
+
+    if (
+      !RESERVED_HEADERS.has(lower) &&
+      !STRUCTURAL_HEADERS.has(lower) &&
+      !lower.startsWith('content-') &&
+      !(name in headers)
+    ) {
+      headers[name] = decodeHeader(value).trim();
+    }
+  }
+
+  if (Object.keys(headers).length > 0) {
+    payload.headers = headers;
+  }
+
+  collectParts(entity, payload);
+
+  return payload;
+}
+
+/**
+ * Render an email payload as an RFC 5322 / MIME message, e.g. to open it in a mail client
+ *
+ * Bodies are quoted-printable, attachments base64 and non-ASCII headers are
+ * encoded. Route, tag, metadata and settings have no MIME equivalent and are left out.
+ *
+ * @example await writeFile('preview.eml', toEml(email.compose().from(...).toPayload()))
+ *
+ * @param payload The email payload
+ * @param options Date and Message-ID of the message
+ * @returns The message, with CRLF line endings
+ */
+export function toEml(payload: EmailPayload, options: EmlOptions = {}): string {
+  const headers: Headers = [['From', encodeAddresses([payload.from])]];
+
+  for (const [name, addresses] of [
+    ['To', payload.to],
+    ['Cc', payload.cc],
+    ['Bcc', payload.bcc],
+    ['Reply-To', payload.reply_to],
+  ] as const) {
+    if (addresses && addresses.length > 0) {
+      headers.push([name, encodeAddresses(addresses)]);
+    }
+  }
+
+  headers.push(
+    ['Subject', encodeHeader(payload.subject)],
+    ['Date', (options.date ?? new Date()).toUTCString().replace(/GMT$/, '+0000')],
+    ['Message-ID', messageId(payload.from, options.messageId)],
+    ['MIME-Version', '1.0']
+  );
+
+  for (const [name, value] of Object.entries(payload.headers ?? {})) {
+    headers.push([name, encodeHeader(value)]);
+  }
+
+  const content = renderContent(payload);
+
+  return `${renderHeaders([...headers, ...content.headers])}${CRLF}${CRLF}${content.body}${CRLF}`;
+}
+
+function parseEntity(raw: string): Entity {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const startsWithBody = /^\r?\n/.test(raw);
+  const head = startsWithBody ? '' : separator ? raw.slice(0, separator.index) : raw;
+  const body = startsWithBody
+    ? raw.replace(/^\r?\n/, '')
+    : separator
+      ? raw.slice(separator.index + separator[0].length)
+      : '';
+  const headers: Headers = [];
+
+  for (const line of head.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+
+    if (colon > 0) {
+      headers.push([line.slice(0, colon).trim(), line.slice(colon + 1).trim()]);
+    }
+  }
+
+  return { headers, body };
+}
+
+function collectParts(entity: Entity, payload: EmailPayload): void {
+  const contentType = parseHeaderValue(findHeader(entity.headers, 'content-type') ?? 'text/plain');
+  const type = contentType.value.toLowerCase();
+
+  if (type.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+
+    if (!boundary) {
+      throw new MimeError(`Multipart part of type ${type} has no boundary`);
+    }
+
+    for (const part of splitMultipart(entity.body, boundary)) {
+      collectParts(parseEntity(part), payload);
+    }
+
+    return;
+  }
+
+  const disposition = parseHeaderValue(findHeader(entity.headers, 'content-disposition') ?? '');
+  const filename = disposition.params.filename ?? contentType.params.name;
+  const content = decodeTransfer(
+    entity.body,
+    findHeader(entity.headers, 'content-transfer-encoding')
+  );
+
+  if (
+    (type === 'text/plain' || type === 'text/html') &&
+    disposition.value.toLowerCase() !== 'attachment' &&
+    !filename
+  ) {
+    const field = type === 'text/html' ? 'html' : 'text';
+    const text = decodeCharset(content, contentType.params.charset).replace(/\r\n/g, '\n');
+    payload[field] = (payload[field] ?? '') + text;
+
+    return;
+  }
+
+  const contentId = findHeader(entity.headers, 'content-id')?.replace(/^<|>$/g, '');
+  const attachments = payload.attachments ?? [];
+  const attachment: Attachment = {
+    filename:
+      filename ??
+      (type === 'message/rfc822'
+        ? 'message.eml'
+        : (contentId ?? `attachment-${attachments.length + 1}`)),
+    content: content.toString('base64'),
+    content_type: type,
+    ...(contentId && { content_id: contentId }),
+  };
+
+  payload.attachments = [...attachments, attachment];
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  let current: string[] | undefined;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+
+    if (trimmed === `--${boundary}`) {
+      if (current) {
+        parts.push(current.join(CRLF));
+      }
+      current = [];
+    } else if (trimmed === `--${boundary}--`) {
+      break;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  // A missing closing delimiter still ends the last part
+  if (current) {
+    parts.push(current.join(CRLF));
+  }
+
+  return parts;
+}
+
+function findHeader(headers: Headers, name: string): string | undefined {
+  return headers.find(([header]) => header.toLowerCase() === name)?.[1];
+}
+
+/**
+ * Parse a header like `text/plain; charset=utf-8`, including RFC 2231 parameters
+ */
+function parseHeaderValue(header: string): HeaderValue {
+  const [value, ...rest] = splitOutsideQuotes(header, ';');
+  const segments: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+
+    if (equals === -1) {
+      continue;
+    }
+
+    const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(param.slice(0, equals).trim().toLowerCase());
+
+    if (!match) {
+      continue;
+    }
+
+    const raw = param.slice(equals + 1).trim();
+    const unquoted = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+
+    segments[match[1]] ??= [];
+    segments[match[1]].push({ index: Number(match[2] ?? 0), value: unquoted, encoded: !!match[3] });
+  }
+
+  const params: Record<string, string> = {};
+
+  for (const [name, parts] of Object.entries(segments)) {
+    parts.sort((a, b) => a.index - b.index);
+
+    const [charset] = parts[0].encoded ? parts[0].value.split("'") : [];
+    const joined = parts
+      .map((part, index) => {
+        const text =
+          index === 0 && part.encoded ? part.value.replace(/^[^']*'[^']*'/, '') : part.value;
+
+        return part.encoded ? percentDecode(text) : Buffer.from(text, 'latin1');
+      })
+      .reduce((all, bytes) => Buffer.concat([all, bytes]), Buffer.alloc(0));
+
+    params[name] = parts[0].encoded
+      ? decodeCharset(joined, charset)
+      : decodeHeader(joined.toString('latin1'));
+  }
+
+  return { value: value.trim(), params };
+}
+
+/**
+ * Split an address list header into addresses, decoding display names
+ *
+ * @param header The header value, e.g. `"Doe, John" <john@example.com>, jane@example.com`
+ * @returns The addresses, with display names quoted where needed
+ */
+export function parseAddresses(header: string): string[] {
+  // Groups such as `undisclosed-recipients:;` only contribute their members
+  const withoutGroups = header.replace(/^[^"<,]*?:|;\s*$/g, (match) =>
+    match.includes('@') ? match : ''
+  );
+
+  return splitOutsideQuotes(withoutGroups, ',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+    .map((address) => {
+      const match = /^(.*?)\s*<([^<>]*)>\s*$/.exec(address);
+
+      if (!match) {
+        return address;
+      }
+
+      const name = decodeHeader(
+        match[1]
+          .trim()
+          .replace(/^"(.*)"$/, '$1')
+          .replace(/\\(.)/g, '$1')
+      );
+
+      return name ? `${formatDisplayName(name)} <${match[2].trim()}>` : match[2].trim();
+    });
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angled = false;
+
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+
+    if (character === '\\' && quoted) {
+      current += character + (value[++index] ?? '');
+      continue;
+    }
+
+    if (character === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (character === '<' || character === '>')) {
+      angled = character === '<';
+    } else if (character === separator && !quoted && !angled) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += character;
+  }
+
+  return [...parts, current];
+}
+
+/**
+ * Decode a raw header value: UTF-8 bytes (RFC 6532) and encoded words (RFC 2047)
+ */
+function decodeHeader(value: string): string {
+  return Buffer.from(value, 'latin1')
+    .toString('utf8')
+    .replace(ENCODED_WORD_RUN, (run) => {
+      let output = '';
+      let bytes = Buffer.alloc(0);
+      let charset: string | undefined;
+
+      for (const [, wordCharset, encoding, text] of run.matchAll(ENCODED_WORD)) {
+        const normalized = wordCharset.split('*')[0].toLowerCase();
+
+        // Adjacent words of the same charset may split a multi-byte character
+        if (charset !== undefined && normalized !== charset) {
+          output += decodeCharset(bytes, charset);
+          bytes = Buffer.alloc(0);
+        }
+
+        charset = normalized;
+        bytes = Buffer.concat([
+          bytes,
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : decodeQuotedPrintable(text.replace(/_/g, ' ')),
+        ]);
+      }
+
+      return output + decodeCharset(bytes, charset);
+    });
+}
+
+function decodeTransfer(body: string, encoding = '7bit'): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.replace(/[ \t]+(?=\r?\n|$)/g, '').replace(/=\r?\n/g, ''));
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  return Buffer.from(
+    text.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+      String.fromCharCode(Number.parseInt(hex, 16))
+    ),
+    'latin1'
+  );
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function percentDecode(text: string): Buffer {
+  return Buffer.from(
+    text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+      String.fromCharCode(Number.parseInt(hex, 16))
+    ),
+    'latin1'
+  );
+}
+
+function renderContent(payload: EmailPayload): Entity {
+  const attachments = payload.attachments ?? [];
+  const inline = payload.html ? attachments.filter((attachment) => attachment.content_id) : [];
+  const attached = attachments.filter((attachment) => !inline.includes(attachment));
+  const bodies: Entity[] = [];
+
+  if (payload.text) {
+    bodies.push(renderText(payload.text, 'text/plain'));
+  }
+
+  if (payload.html) {
+    bodies.push(renderText(payload.html, 'text/html'));
+  }
+
+  let content =
+    bodies.length === 0
+      ? renderText('', 'text/plain')
+      : bodies.length === 1
+        ? bodies[0]
+        : renderMultipart('alternative', bodies);
+
+  if (inline.length > 0) {
+    content = renderMultipart('related', [
+      content,
+      ...inline.map((attachment) => renderAttachment(attachment, 'inline')),
+    ]);
+  }
+
+  if (attached.length > 0) {
+    content = renderMultipart('mixed', [
+      content,
+      ...attached.map((attachment) => renderAttachment(attachment, 'attachment')),
+    ]);
+  }
+
+  return content;
+}
+
+function renderText(text: string, type: string): Entity {
+  return {
+    headers: [
+      ['Content-Type', `${type}; charset=utf-8`],
+      ['Content-Transfer-Encoding', 'quoted-printable'],
+    ],
+    body: encodeQuotedPrintable(text),
+  };
+}
+
+function renderAttachment(attachment: Attachment, disposition: string): Entity {
+  const type = attachment.content_type || 'application/octet-stream';
+  const headers: Headers = [
+    ['Content-Type', `${type}; ${encodeParam('name', attachment.filename)}`],
+    ['Content-Disposition', `${disposition}; ${encodeParam('filename', attachment.filename)}`],
+    ['Content-Transfer-Encoding', 'base64'],
+  ];
+
+  if (attachment.content_id) {
+    headers.push(['Content-ID', `<${attachment.content_id}>`]);
+  }
+
+  return {
+    headers,
+    body: (attachment.content.replace(/\s+/g, '').match(/.{1,76}/g) ?? []).join(CRLF),
+  };
+}
+
+function renderMultipart(subtype: string, parts: Entity[]): Entity {
+  const boundary = `lettermint-${randomUUID()}`;
+  const body = parts
+    .map(
+      (part) =>
+        `--${boundary}${CRLF}${renderHeaders(part.headers)}${CRLF}${CRLF}${part.body}${CRLF}`
+    )
+    .join('');
+
+  return {
+    headers: [['Content-Type', `multipart/${subtype}; boundary="${boundary}"`]],
+    body: `${body}--${boundary}--`,
+  };
+}
+
+/**
+ * Render headers, folding lines longer than 78 characters at spaces
+ */
+function renderHeaders(headers: Headers): string {
+  return headers
+    .map(([name, value]) => {
+      const lines: string[] = [];
+      let line = `${name}:`;
+
+      for (const word of value.split(' ')) {
+        if (line.length + word.length + 1 > MAX_LINE_LENGTH && line.trim() !== `${name}:`) {
+          lines.push(line);
+          line = '';
+        }
+
+        line += ` ${word}`;
+      }
+
+      return [...lines, line].join(CRLF);
+    })
+    .join(CRLF);
+}
+
+function encodeAddresses(addresses: string[]): string {
+  return addresses
+    .map((address) => {
+      const match = /^(.*?)\s*<([^<>]*)>\s*$/.exec(address.trim());
+
+      if (!match || isAscii(match[1])) {
+        return address.trim();
+      }
+
+      const name = match[1]
+        .trim()
+        .replace(/^"(.*)"$/, '$1')
+        .replace(/\\(.)/g, '$1');
+
+      return `${encodeWords(name)} <${match[2]}>`;
+    })
+    .join(', ');
+}
+
+function encodeHeader(value: string): string {
+  return isAscii(value) ? value : encodeWords(value);
+}
+
+/**
+ * Encode text as RFC 2047 encoded words short enough to fold
+ */
+function encodeWords(text: string): string {
+  const words: string[] = [];
+  let chunk = '';
+
+  for (const character of text) {
+    if (Buffer.byteLength(chunk + character) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+
+    chunk += character;
+  }
+
+  return [...words, chunk]
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+    .join(' ');
+}
+
+/**
+ * Encode a parameter, using RFC 2231 for non-ASCII values
+ */
+function encodeParam(name: string, value: string): string {
+  if (isAscii(value)) {
+    return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+
+  const encoded = encodeURIComponent(value).replace(
+    /['()*]/g,
+    (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `${name}*=UTF-8''${encoded}`;
+}
+
+function encodeQuotedPrintable(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const bytes = Buffer.from(line, 'utf8');
+      let encoded = '';
+
+      bytes.forEach((byte, index) => {
+        const last = index === bytes.length - 1;
+        const plain =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !last);
+
+        encoded += plain
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+      });
+
+      const wrapped: string[] = [];
+
+      // Soft line breaks keep lines within 76 characters without splitting an escape
+      while (encoded.length > 76) {
+        let cut = 75;
+
+        if (encoded[cut - 1] === '=') {
+          cut -= 1;
+        } else if (encoded[cut - 2] === '=') {
+          cut -= 2;
+        }
+
+        wrapped.push(`${encoded.slice(0, cut)}=`);
+        encoded = encoded.slice(cut);
+      }
+
+      return [...wrapped, encoded].join(CRLF);
+    })
+    .join(CRLF);
+}
+
+export function formatDisplayName(name: string): string {
+  return /[",;:<>@()[\]\\.]/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+}
+
+function messageId(from: string, id?: string): string {
+  if (id) {
+    return id.startsWith('<') ? id : `<${id}>`;
+  }
+
+  const domain = /@([^\s>]+)>?\s*$/.exec(from)?.[1] ?? 'lettermint.local';
+
+  return `<${randomUUID()}@${domain}>`;
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
@@ -0,0 +1,246 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { LettermintClient, type Transport } from './client';
+import { EmailEndpoint } from './endpoints/email';
+import {
+  type NodemailerMailOptions,
+  type NodemailerSentMessageInfo,
+  NodemailerTransport,
+  type NodemailerTransportOptions,
+} from './nodemailer';
+import { MockLettermint } from './testing';
+import { LettermintError, TimeoutError, ValidationError } from './utils/errors';
+
+const mockFetch = jest.fn();
+
+let lettermint: MockLettermint;
+let transport: NodemailerTransport;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  lettermint = new MockLettermint();
+  transport = new NodemailerTransport(lettermint.email, { route: 'transactional' });
+});
+
+const sendMail = (data: NodemailerMailOptions) =>
+  new Promise<NodemailerSentMessageInfo | undefined>((resolve, reject) =>
+    transport.send({ data }, (error, info) => (error ? reject(error) : resolve(info)))
+  );
+
+const message = { from: 'hello@acme.com', to: 'john@example.com', subject: 'Hi', text: 'Hi' };
+
+// Sends to the mock API and downloads every other URL through the given transport
+const downloadingTransport = (download: Transport, options: NodemailerTransportOptions = {}) =>
+  new NodemailerTransport(
+    new EmailEndpoint(
+      new LettermintClient({
+        apiToken: 'mock-sending-token',
+        baseUrl: 'https://api.lettermint.test/v1',
+        timeout: 50,
+        fetch: (url, init) =>
+          url.startsWith('https://api.lettermint.test/')
+            ? lettermint.transport(url, init)
+            : download(url, init),
+      })
+    ),
+    options
+  );
+
+describe('NodemailerTransport', () => {
+  it('should convert addresses, bodies and headers', async () => {
+    const info = await sendMail({
+      from: { name: 'Acme, Inc.', address: 'hello@acme.com' },
+      to: 'John <john@example.com>, jane@example.com',
+      cc: [{ address: 'cc@example.com' }, 'Other <other@example.com>'],
+      bcc: 'audit@acme.com',
+      replyTo: 'support@acme.com',
+      subject: 'Welcome',
+      html: Buffer.from('<p>Welcome</p>'),
+      text: Readable.from(['Wel', 'come']),
+      headers: { 'X-Campaign': 'spring', 'X-Tags': ['a', 'b'], 'X-Prepared': { value: 'yes' } },
+      list: { unsubscribe: 'https://acme.com/unsubscribe' },
+      inReplyTo: '<previous@acme.com>',
+      references: ['<first@acme.com>', '<previous@acme.com>'],
+      priority: 'high',
+      lettermint: { tag: 'onboarding', metadata: { user: '42' }, idempotencyKey: 'welcome-42' },
+    });
+
+    expect(lettermint.lastSent).toMatchObject({
+      idempotencyKey: 'welcome-42',
+      payload: {
+        from: '"Acme, Inc." <hello@acme.com>',
+        to: ['John <john@example.com>', 'jane@example.com'],
+        cc: ['cc@example.com', 'Other <other@example.com>'],
+        bcc: ['audit@acme.com'],
+        reply_to: ['support@acme.com'],
+        subject: 'Welcome',
+        html: '<p>Welcome</p>',
+        text: 'Welcome',
+        route: 'transactional',
+        tag: 'onboarding',
+        metadata: { user: '42' },
+        headers: {
+          'X-Campaign': 'spring',
+          'X-Tags': 'a, b',
+          'X-Prepared': 'yes',
+          'List-Unsubscribe': '<https://acme.com/unsubscribe>',
+          'In-Reply-To': '<previous@acme.com>',
+          References: '<first@acme.com> <previous@acme.com>',
+          'X-Priority': '1 (Highest)',
+          Importance: 'High',
+        },
+      },
+    });
+    expect(info).toEqual({
+      envelope: {
+        from: 'hello@acme.com',
+        to: [
+          'john@example.com',
+          'jane@example.com',
+          'cc@example.com',
+          'other@example.com',
+          'audit@acme.com',
+        ],
+      },
+      messageId: lettermint.lastSent?.id,
+      accepted: expect.arrayContaining(['john@example.com', 'audit@acme.com']),
+      rejected: [],
+      pending: [],
+      response: lettermint.lastSent?.id,
+    });
+  });
+
+  describe('attachments', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'lettermint-nodemailer-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should read contents, paths, streams and URLs', async () => {
+      const path = join(directory, 'invoice.pdf');
+      await writeFile(path, '%PDF-1.7');
+      const download = jest.fn(async () => new Response('remote'));
+      transport = downloadingTransport(download);
+
+      await sendMail({
+        ...message,
+        html: '<img src="cid:logo">',
+        attachments: [
+          { filename: 'notes.txt', content: 'Hello' },
+          { filename: 'logo.png', content: 'iVBORw0KGgo=', encoding: 'base64', cid: 'logo' },
+          { path },
+          { filename: 'export.csv', content: Readable.from(['a,b\n', '1,2\n']) },
+          { path: 'data:text/plain;base64,SGk=' },
+          { href: 'https://cdn.acme.com/files/terms.html' },
+        ],
+      });
+
+      expect(download).toHaveBeenCalledWith(
+        'https://cdn.acme.com/files/terms.html',
+        expect.objectContaining({ method: 'GET', signal: expect.any(AbortSignal) })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(lettermint.lastSent?.payload.attachments).toEqual([
+        { filename: 'notes.txt', content: 'SGVsbG8=', content_type: 'text/plain' },
+        {
+          filename: 'logo.png',
+          content: 'iVBORw0KGgo=',
+          content_type: 'image/png',
+          content_id: 'logo',
+        },
+        { filename: 'invoice.pdf', content: 'JVBERi0xLjc=', content_type: 'application/pdf' },
+        { filename: 'export.csv', content: 'YSxiCjEsMgo=', content_type: 'text/csv' },
+        { filename: 'attachment-5', content: 'SGk=', content_type: 'application/octet-stream' },
+        { filename: 'terms.html', content: 'cmVtb3Rl', content_type: 'text/html' },
+      ]);
+    });
+
+    it('should time out downloads with the client timeout', async () => {
+      transport = downloadingTransport(
+        (_url, init) =>
+          new Promise((_resolve, reject) =>
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('The operation was aborted', 'AbortError'))
+            )
+          )
+      );
+
+      await expect(
+        sendMail({ ...message, attachments: [{ href: 'https://cdn.acme.com/slow.pdf' }] })
+      ).rejects.toThrow(TimeoutError);
+      expect(lettermint.sent).toEqual([]);
+    });
+
+    it('should refuse file paths when file access is disabled', async () => {
+      const path = join(directory, 'secret.txt');
+      await writeFile(path, 'secret');
+      transport = new NodemailerTransport(lettermint.email, { disableFileAccess: true });
+
+      await expect(sendMail({ ...message, attachments: [{ path }] })).rejects.toThrow(
+        new LettermintError('File access is disabled, cannot read secret.txt')
+      );
+      await expect(sendMail({ ...message, html: { path } })).rejects.toThrow(
+        new LettermintError('File access is disabled, cannot read body')
+      );
+      expect(lettermint.sent).toEqual([]);
+    });
+
+    it('should refuse URLs when URL access is disabled', async () => {
+      const download = jest.fn(async () => new Response('remote'));
+      transport = downloadingTransport(download, { disableUrlAccess: true });
+
+      await expect(
+        sendMail({ ...message, attachments: [{ path: 'https://cdn.acme.com/terms.html' }] })
+      ).rejects.toThrow(new LettermintError('URL access is disabled, cannot download terms.html'));
+      await sendMail({ ...message, attachments: [{ path: 'data:text/plain;base64,SGk=' }] });
+
+      expect(download).not.toHaveBeenCalled();
+      expect(lettermint.sent).toHaveLength(1);
+    });
+
+    it('should refuse raw attachments', async () => {
+      await expect(
+        sendMail({ ...message, attachments: [{ raw: 'Content-Type: text/plain\r\n\r\nHi' }] })
+      ).rejects.toThrow(
+        new LettermintError('Raw attachments are not supported, pass content or a path instead')
+      );
+      expect(lettermint.sent).toEqual([]);
+    });
+  });
+
+  it('should send raw messages', async () => {
+    await sendMail({
+      raw: 'From: hello@acme.com\r\nTo: john@example.com\r\nSubject: Raw\r\n\r\nHello',
+    });
+
+    expect(lettermint.lastSent?.payload).toMatchObject({
+      from: 'hello@acme.com',
+      to: ['john@example.com'],
+      subject: 'Raw',
+      text: 'Hello',
+    });
+  });
+
+  it('should pass errors to the callback', async () => {
+    lettermint.failNext({ type: 'validation', errors: { to: ['Invalid.'] } });
+
+    await expect(sendMail(message)).rejects.toThrow(ValidationError);
+  });
+
+  it('should verify by pinging the API', async () => {
+    const verified = await new Promise((resolve, reject) =>
+      transport.verify((error, result) => (error ? reject(error) : resolve(result)))
+    );
+
+    expect(verified).toBe(true);
+    expect(transport.name).toBe('Lettermint');
+  });
+});
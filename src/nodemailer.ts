@@ -0,0 +1,462 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { version } from '../package.json';
+import type { EmailEndpoint } from './endpoints/email';
+import type { EmailMessage } from './endpoints/message';
+import { formatDisplayName, parseAddresses } from './mime';
+import { readStream } from './utils/attachments';
+import { LettermintError } from './utils/errors';
+
+/**
+ * An address as accepted by Nodemailer: `john@example.com`, `John <john@example.com>`,
+ * a comma-separated list, an object or an array of those
+ */
+export type NodemailerAddress =
+  | string
+  | { name?: string; address: string }
+  | Array<string | { name?: string; address: string }>;
+
+/**
+ * Contents as accepted by Nodemailer for bodies and attachments
+ */
+export type NodemailerContent = string | Uint8Array | AsyncIterable<Uint8Array | string>;
+
+/**
+ * A Nodemailer attachment
+ */
+export interface NodemailerAttachment {
+  filename?: string | false;
+  content?: NodemailerContent;
+
+  /**
+   * File path, `http(s)://` URL or data URI to read the contents from
+   */
+  path?: string;
+
+  /**
+   * URL to download the contents from
+   */
+  href?: string;
+
+  /**
+   * Encoding of string contents, e.g. `base64` (defaults to utf-8)
+   */
+  encoding?: BufferEncoding;
+  contentType?: string;
+
+  /**
+   * Content-ID, referenced as `cid:` in the HTML body
+   */
+  cid?: string;
+  raw?: unknown;
+}
+
+/**
+ * A body as accepted by Nodemailer
+ */
+export type NodemailerBody = NodemailerContent | Omit<NodemailerAttachment, 'filename' | 'cid'>;
+
+/**
+ * A header value as accepted by Nodemailer
+ */
+export type NodemailerHeaderValue = string | string[] | { prepared?: boolean; value: string };
+
+/**
+ * The message options of Nodemailer's `sendMail()` handled by the transport
+ */
+export interface NodemailerMailOptions {
+  from?: NodemailerAddress;
+  sender?: NodemailerAddress;
+  to?: NodemailerAddress;
+  cc?: NodemailerAddress;
+  bcc?: NodemailerAddress;
+  replyTo?: NodemailerAddress;
+  subject?: string;
+  text?: NodemailerBody;
+  html?: NodemailerBody;
+  attachments?: NodemailerAttachment[];
+  headers?: Record<string, NodemailerHeaderValue> | Array<{ key: string; value: string }>;
+  inReplyTo?: string;
+  references?: string | string[];
+  priority?: 'high' | 'normal' | 'low';
+
+  /**
+   * `List-*` headers, e.g. `{ unsubscribe: 'https://acme.com/unsubscribe' }`
+   */
+  list?: Record<string, string | string[]>;
+
+  /**
+   * A complete RFC 5322 message to send instead of the other options
+   */
+  raw?: string | Uint8Array;
+
+  /**
+   * Lettermint options of this message
+   */
+  lettermint?: {
+    route?: string;
+    tag?: string;
+    metadata?: Record<string, string>;
+    idempotencyKey?: string;
+  };
+}
+
+/**
+ * The message Nodemailer hands to a transport
+ */
+export interface NodemailerMail {
+  data: NodemailerMailOptions;
+}
+
+/**
+ * The `info` result of Nodemailer's `sendMail()`
+ */
+export interface NodemailerSentMessageInfo {
+  envelope: { from: string | false; to: string[] };
+
+  /**
+   * The Lettermint message id
+   */
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  pending: string[];
+  response: string;
+}
+
+/**
+ * Options for the Nodemailer transport
+ */
+export interface NodemailerTransportOptions {
+  /**
+   * Route of messages without their own `lettermint.route` (optional)
+   */
+  route?: string;
+
+  /**
+   * Refuse attachments and bodies read from file paths, like Nodemailer's option of that name
+   */
+  disableFileAccess?: boolean;
+
+  /**
+   * Refuse attachments and bodies downloaded from URLs, like Nodemailer's option of that name
+   */
+  disableUrlAccess?: boolean;
+}
+
+type Callback<T> = (error: Error | null, result?: T) => void;
+
+/**
+ * Nodemailer transport sending through Lettermint
+ *
+ * Converts Nodemailer messages into Lettermint emails, so applications built
+ * on Nodemailer can switch without rewriting how they send. Attachments given
+ * as paths, URLs, streams and CIDs are supported; URLs are downloaded through
+ * the client's transport, bound by its timeout.
+ *
+ * @example
+ * const transporter = nodemailer.createTransport(
+ *   new NodemailerTransport(Lettermint.email('your-sending-token'))
+ * );
+ * const info = await transporter.sendMail({ from, to, subject, html });
+ * console.log(info.messageId); // the Lettermint message id
+ */
+export class NodemailerTransport {
+  public readonly name = 'Lettermint';
+  public readonly version = version;
+
+  /**
+   * Create a Nodemailer transport
+   *
+   * @param email The endpoint to send through
+   * @param options Default route and access to files and URLs
+   */
+  constructor(
+    private readonly email: EmailEndpoint,
+    private readonly options: NodemailerTransportOptions = {}
+  ) {}
+
+  /**
+   * Send a message, called by Nodemailer for every `sendMail()`
+   *
+   * @param mail The message
+   * @param callback Called with the Nodemailer-style `info`
+   */
+  public send(mail: NodemailerMail, callback: Callback<NodemailerSentMessageInfo>): void {
+    this.sendMail(mail.data).then((info) => callback(null, info), toCallback(callback));
+  }
+
+  /**
+   * Check that the Sending API can be reached, called by Nodemailer's `verify()`
+   *
+   * @param callback Called with `true` once the API answered
+   */
+  public verify(callback: Callback<true>): void {
+    this.email.ping().then(() => callback(null, true), toCallback(callback));
+  }
+
+  private async sendMail(data: NodemailerMailOptions): Promise<NodemailerSentMessageInfo> {
+    const message = await this.compose(data);
+    const { from, to = [], cc = [], bcc = [] } = message.toPayload();
+    const recipients = [...to, ...cc, ...bcc].map(addressOf);
+    const { message_id } = await message.send();
+
+    return {
+      envelope: { from: from ? addressOf(from) : false, to: recipients },
+      messageId: message_id,
+      accepted: recipients,
+      rejected: [],
+      pending: [],
+      response: message_id,
+    };
+  }
+
+  private async compose(data: NodemailerMailOptions): Promise<EmailMessage> {
+    const message = this.email.compose();
+    const { route = this.options.route, tag, metadata, idempotencyKey } = data.lettermint ?? {};
+
+    if (data.raw !== undefined) {
+      message.fromEml(data.raw);
+    }
+
+    const [from] = addresses(data.from ?? data.sender);
+
+    if (from) {
+      message.from(from);
+    }
+
+    for (const [field, setter] of [
+      ['to', 'to'],
+      ['cc', 'cc'],
+      ['bcc', 'bcc'],
+      ['replyTo', 'replyTo'],
+    ] as const) {
+      const list = addresses(data[field]);
+
+      if (list.length > 0) {
+        message[setter](...list);
+      }
+    }
+
+    if (data.subject !== undefined) {
+      message.subject(data.subject);
+    }
+
+    if (data.html !== undefined) {
+      message.html(await this.readBody(data.html));
+    }
+
+    if (data.text !== undefined) {
+      message.text(await this.readBody(data.text));
+    }
+
+    const headers = collectHeaders(data);
+
+    if (Object.keys(headers).length > 0) {
+      message.headers({ ...message.toPayload().headers, ...headers });
+    }
+
+    for (const [index, attachment] of (data.attachments ?? []).entries()) {
+      await this.attach(message, attachment, index);
+    }
+
+    if (route) {
+      message.route(route);
+    }
+
+    if (tag) {
+      message.tag(tag);
+    }
+
+    if (metadata) {
+      message.metadata(metadata);
+    }
+
+    if (idempotencyKey) {
+      message.idempotencyKey(idempotencyKey);
+    }
+
+    return message;
+  }
+
+  private async readBody(body: NodemailerBody): Promise<string> {
+    if (typeof body === 'string') {
+      return body;
+    }
+
+    if (body instanceof Uint8Array || isAsyncIterable(body)) {
+      return (await readContent('body', body)).toString('utf8');
+    }
+
+    return (await this.readAttachment('body', body)).toString('utf8');
+  }
+
+  private async attach(
+    message: EmailMessage,
+    attachment: NodemailerAttachment,
+    index: number
+  ): Promise<void> {
+    if (attachment.raw !== undefined) {
+      throw new LettermintError(
+        'Raw attachments are not supported, pass content or a path instead'
+      );
+    }
+
+    const source = attachment.path ?? attachment.href;
+    const filename =
+      attachment.filename ||
+      (source && !source.startsWith('data:')
+        ? basename(isUrl(source) ? new URL(source).pathname : source)
+        : '') ||
+      `attachment-${index + 1}`;
+    const options = {
+      ...(attachment.contentType && { contentType: attachment.contentType }),
+      ...(attachment.cid && { contentId: attachment.cid }),
+    };
+
+    if (attachment.content === undefined && attachment.path && isFilePath(attachment.path)) {
+      this.checkFileAccess(filename);
+      message.attachFile(attachment.path, { ...options, filename });
+    } else if (attachment.content !== undefined && isAsyncIterable(attachment.content)) {
+      message.attachStream(filename, attachment.content, options);
+    } else {
+      message.attachBuffer(filename, await this.readAttachment(filename, attachment), options);
+    }
+  }
+
+  private async readAttachment(
+    name: string,
+    attachment: Omit<NodemailerAttachment, 'filename' | 'cid'>
+  ): Promise<Buffer> {
+    const { content, encoding } = attachment;
+
+    if (content !== undefined) {
+      return typeof content === 'string'
+        ? Buffer.from(content, encoding ?? 'utf8')
+        : readContent(name, content);
+    }
+
+    const source = attachment.path ?? attachment.href;
+
+    if (!source) {
+      throw new LettermintError(`Attachment ${name} has no content, path or href`);
+    }
+
+    if (source.startsWith('data:')) {
+      const match = /^data:[^,]*?(;base64)?,(.*)$/s.exec(source);
+
+      if (!match) {
+        throw new LettermintError(`Attachment ${name} has an invalid data URI`);
+      }
+
+      return match[1]
+        ? Buffer.from(match[2], 'base64')
+        : Buffer.from(decodeURIComponent(match[2]), 'utf8');
+    }
+
+    if (isFilePath(source)) {
+      this.checkFileAccess(name);
+      return readFile(source);
+    }
+
+    if (this.options.disableUrlAccess) {
+      throw new LettermintError(`URL access is disabled, cannot download ${name}`);
+    }
+
+    const response = await this.email.download(source);
+
+    if (!response.ok) {
+      throw new LettermintError(
+        `Downloading attachment ${name} failed with HTTP status ${response.status}`
+      );
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private checkFileAccess(name: string): void {
+    if (this.options.disableFileAccess) {
+      throw new LettermintError(`File access is disabled, cannot read ${name}`);
+    }
+  }
+}
+
+function toCallback(callback: Callback<never>): (error: unknown) => void {
+  return (error) => callback(error instanceof Error ? error : new Error(String(error)));
+}
+
+function addresses(value: NodemailerAddress | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value]).flatMap((entry) => {
+    if (typeof entry === 'string') {
+      return parseAddresses(entry);
+    }
+
+    return entry.name ? [`${formatDisplayName(entry.name)} <${entry.address}>`] : [entry.address];
+  });
+}
+
+function addressOf(address: string): string {
+  return /<([^<>]+)>\s*$/.exec(address)?.[1] ?? address.trim();
+}
+
+function collectHeaders(data: NodemailerMailOptions): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const entries = Array.isArray(data.headers)
+    ? data.headers.map(({ key, value }) => [key, value] as const)
+    : Object.entries(data.headers ?? {});
+
+  for (const [key, value] of entries) {
+    headers[key] =
+      typeof value === 'string' ? value : Array.isArray(value) ? value.join(', ') : value.value;
+  }
+
+  for (const [key, value] of Object.entries(data.list ?? {})) {
+    const name = `List-${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+
+    headers[name] = (Array.isArray(value) ? value : [value])
+      .map((url) => (url.startsWith('<') ? url : `<${url}>`))
+      .join(', ');
+  }
+
+  if (data.inReplyTo) {
+    headers['In-Reply-To'] = data.inReplyTo;
+  }
+
+  if (data.references) {
+    headers.References = [data.references].flat().join(' ');
+  }
+
+  if (data.priority && data.priority !== 'normal') {
+    const high = data.priority === 'high';
+
+    headers['X-Priority'] = high ? '1 (Highest)' : '5 (Lowest)';
+    headers.Importance = high ? 'High' : 'Low';
+  }
+
+  return headers;
+}
+
+function readContent(
+  name: string,
+  content: Uint8Array | AsyncIterable<Uint8Array | string>
+): Promise<Buffer> {
+  return content instanceof Uint8Array
+    ? Promise.resolve(Buffer.from(content))
+    : readStream(name, content);
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array | string> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+function isFilePath(source: string): boolean {
+  return !isUrl(source) && !source.startsWith('data:');
+}
@@ -0,0 +1,162 @@
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LettermintClient } from '../client';
+import { Lettermint } from '../lettermint';
+import { LettermintError } from '../utils/errors';
+import { FileOutbox, MemoryOutbox } from './outbox';
+
+const mockFetch = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+});
+
+const message = { from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', text: 'Hi' };
+
+describe('dry-run mode', () => {
+  it('should capture sends and batches without calling the API', async () => {
+    const outbox = new MemoryOutbox();
+    const email = Lettermint.email('sending-token', { mode: 'dry-run', outbox });
+
+    const sent = await email
+      .from('a@example.com')
+      .to('b@example.com')
+      .subject('Hello')
+      .html('<p>Hello</p>')
+      .idempotencyKey('welcome-1')
+      .send();
+    const batch = await email.sendBatch([message, { ...message, subject: 'Second' }]);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(sent).toEqual({ message_id: outbox.messages[0].id, status: 'pending' });
+    expect(batch.map((response) => response.message_id)).toEqual([
+      outbox.messages[1].id,
+      outbox.messages[2].id,
+    ]);
+    expect(outbox.messages[0]).toMatchObject({
+      payload: { from: 'a@example.com', subject: 'Hello', html: '<p>Hello</p>' },
+      idempotencyKey: 'welcome-1',
+    });
+    expect(outbox.messages[0].capturedAt).toBeInstanceOf(Date);
+    expect(outbox.messages.map((captured) => captured.payload.subject)).toEqual([
+      'Hello',
+      'Hi',
+      'Second',
+    ]);
+
+    await outbox.clear();
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it('should capture the payload after middleware ran', async () => {
+    const client = new LettermintClient({
+      apiToken: 'token',
+      mode: 'dry-run',
+      textFromHtml: true,
+    });
+
+    await client.post('/send', { ...message, text: undefined, html: '<p>Derived</p>' });
+
+    expect((await client.outbox?.list())?.[0].payload.text).toBe('Derived');
+  });
+
+  it('should answer pings and refuse other requests', async () => {
+    const email = Lettermint.email('sending-token', { mode: 'dry-run' });
+    const api = Lettermint.api('api-token', { mode: 'dry-run' });
+
+    await expect(email.ping()).resolves.toBe('pong');
+    await expect(api.domains.list()).rejects.toThrow(
+      new LettermintError('Only send requests can be made without the API, got GET /domains')
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should resolve paths against a base URL with a trailing slash', async () => {
+    const outbox = new MemoryOutbox();
+    const email = Lettermint.email('sending-token', {
+      mode: 'dry-run',
+      outbox,
+      baseUrl: 'https://api.lettermint.test/v1/',
+    });
+
+    await email.from('a@example.com').to('b@example.com').subject('Hi').text('Hi').send();
+
+    await expect(email.ping()).resolves.toBe('pong');
+    expect(outbox.messages).toHaveLength(1);
+  });
+
+  it('should send for real in live mode', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ message_id: 'msg_123', status: 'queued' }),
+    } as Response);
+    const client = new LettermintClient({ apiToken: 'token', mode: 'live' });
+
+    await client.post('/send', message);
+
+    expect(client.outbox).toBeUndefined();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('outbox mode', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lettermint-outbox-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write every email as JSON and HTML', async () => {
+    const email = Lettermint.email('sending-token', { mode: 'outbox', outbox: directory });
+
+    const { message_id } = await email
+      .sendBatch([
+        { ...message, html: '<h1>Hi</h1>' },
+        { ...message, text: 'Plain <text>' },
+      ])
+      .then(([first]) => first);
+
+    const files = await readdir(directory);
+    const outbox = new FileOutbox(directory);
+    const emails = await outbox.list();
+
+    expect(files).toHaveLength(4);
+    expect(emails).toHaveLength(2);
+    expect(emails[0].capturedAt).toBeInstanceOf(Date);
+    expect(JSON.parse(await readFile(join(directory, `${message_id}.json`), 'utf8'))).toMatchObject(
+      { id: message_id, payload: { html: '<h1>Hi</h1>' } }
+    );
+    expect(await readFile(join(directory, `${message_id}.html`), 'utf8')).toBe('<h1>Hi</h1>');
+    const plain = emails.find((captured) => captured.id !== message_id);
+
+    expect(await readFile(join(directory, `${plain?.id}.html`), 'utf8')).toContain(
+      '<pre>Plain &lt;text&gt;</pre>'
+    );
+
+    await outbox.clear();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('should list emails captured in the same millisecond in the order they were sent', async () => {
+    const outbox = new FileOutbox(directory);
+    const capturedAt = new Date('2026-01-01T00:00:00Z');
+    const ids = ['f', 'a', 'c', 'e', 'b', 'd'];
+
+    for (const id of ids) {
+      await outbox.save({ id, capturedAt, payload: message });
+    }
+
+    expect((await outbox.list()).map((email) => email.id)).toEqual(ids);
+    expect(await outbox.list()).toContainEqual({ id: 'f', capturedAt, payload: message });
+  });
+
+  it('should list nothing before the directory exists', async () => {
+    await expect(new FileOutbox(join(directory, 'missing')).list()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Transport } from '../client';
+import type { EmailPayload, SendMailResponse } from '../types';
+import { LettermintError } from '../utils/errors';
+
+/**
+ * How a client delivers send requests
+ *
+ * - `live` posts them to the API
+ * - `dry-run` captures them in memory
+ * - `outbox` captures them as files on disk
+ */
+export type ClientMode = 'live' | 'dry-run' | 'outbox';
+
+/**
+ * An email captured instead of being sent
+ */
+export interface CapturedEmail {
+  /**
+   * The synthetic message id returned to the caller
+   */
+  id: string;
+  capturedAt: Date;
+  payload: EmailPayload;
+  idempotencyKey?: string;
+}
+
+/**
+ * Storage for captured emails
+ */
+export interface OutboxStore {
+  save(email: CapturedEmail): Promise<void>;
+
+  /**
+   * Captured emails, oldest first
+   */
+  list(): Promise<CapturedEmail[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Directory used by the `outbox` mode when no store is given
+ */
+export const DEFAULT_OUTBOX_DIRECTORY = '.lettermint/outbox';
+
+/**
+ * Outbox keeping captured emails in memory, e.g. to assert on them in tests
+ *
+ * @example
+ * const outbox = new MemoryOutbox();
+ * const email = Lettermint.email('token', { mode: 'dry-run', outbox });
+ */
+export class MemoryOutbox implements OutboxStore {
+  private readonly captured: CapturedEmail[] = [];
+
+  /**
+   * Captured emails, oldest first
+   */
+  public get messages(): readonly CapturedEmail[] {
+    return this.captured;
+  }
+
+  public async save(email: CapturedEmail): Promise<void> {
+    this.captured.push(email);
+  }
+
+  public async list(): Promise<CapturedEmail[]> {
+    return [...this.captured];
+  }
+
+  public async clear(): Promise<void> {
+    this.captured.length = 0;
+  }
+}
+
+/**
+ * Order of the emails saved by this process, to sort those captured in the same millisecond
+ */
+let saveSequence = 0;
+
+/**
+ * Outbox writing every captured email to a directory as `<id>.json` and `<id>.html`
+ */
+export class FileOutbox implements OutboxStore {
+  /**
+   * Create a file outbox
+   *
+   * @param directory Directory for the captured emails, created when needed
+   */
+  constructor(public readonly directory: string = DEFAULT_OUTBOX_DIRECTORY) {}
+
+  public async save(email: CapturedEmail): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      join(this.directory, `${email.id}.json`),
+      `${JSON.stringify({ ...email, sequence: ++saveSequence }, null, 2)}\n`
+    );
+    await writeFile(join(this.directory, `${email.id}.html`), renderBody(email.payload));
+  }
+
+  public async list(): Promise<CapturedEmail[]> {
+    const files = await readdir(this.directory).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+
+      throw error;
+    });
+
+    const emails = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map(async (file) => {
+          const { sequence = 0, ...email } = JSON.parse(
+            await readFile(join(this.directory, file), 'utf8')
+          );
+
+          return { sequence, email: { ...email, capturedAt: new Date(email.capturedAt) } };
+        })
+    );
+
+    return emails
+      .sort(
+        (a, b) =>
+          a.email.capturedAt.getTime() - b.email.capturedAt.getTime() || a.sequence - b.sequence
+      )
+      .map(({ email }) => email as CapturedEmail);
+  }
+
+  public async clear(): Promise<void> {
+    const files = await readdir(this.directory).catch(() => []);
+
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json') || file.endsWith('.html'))
+        .map((file) => rm(join(this.directory, file), { force: true }))
+    );
+  }
+}
+
+/**
+ * Create the transport of the `dry-run` and `outbox` modes
+ *
+ * Send and batch requests are captured in the store and answered with
+ * synthetic responses; `/ping` answers `pong`. Other requests are refused, as
+ * they cannot be answered without the API.
+ *
+ * @param store Storage for captured emails
+ * @param baseUrl Base URL of the client, to resolve request paths
+ * @returns The transport
+ */
+export function outboxTransport(store: OutboxStore, baseUrl: string): Transport {
+  return async (url, init) => {
+    const { pathname } = new URL(url);
+    const basePath = new URL(baseUrl).pathname.replace(/\/$/, '');
+    const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname;
+    const method = (init.method ?? 'GET').toUpperCase();
+
+    if (method === 'GET' && path === '/ping') {
+      return new Response('pong', { status: 200 });
+    }
+
+    if (method !== 'POST' || (path !== '/send' && path !== '/send/batch')) {
+      throw new LettermintError(
+        `Only send requests can be made without the API, got ${method} ${path}`
+      );
+    }
+
+    const body = JSON.parse(String(init.body ?? 'null'));
+    const headers = new Headers(init.headers as HeadersInit);
+    const idempotencyKey = headers.get('Idempotency-Key') ?? undefined;
+    const payloads: EmailPayload[] = path === '/send' ? [body] : body;
+    const responses: SendMailResponse[] = [];
+
+    for (const payload of payloads) {
+      const id = randomUUID();
+
+      await store.save({
+        id,
+        capturedAt: new Date(),
+        payload,
+        ...(idempotencyKey && { idempotencyKey }),
+      });
+      responses.push({ message_id: id, status: 'pending' });
+    }
+
+    return Response.json(path === '/send' ? responses[0] : responses, { status: 202 });
+  };
+}
+
+/**
+ * Render the body of a captured email as a standalone HTML document
+ *
+ * @param payload The captured payload
+ * @returns The HTML body, or the text body in a `<pre>` block
+ */
+export function renderBody(payload: EmailPayload): string {
+  if (payload.html) {
+    return payload.html;
+  }
+
+  return `<!DOCTYPE html><html><body><pre>${escapeHtml(payload.text ?? '')}</pre></body></html>`;
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (character) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[character] ??
+      character
+  );
+}
@@ -0,0 +1,54 @@
+import { MemoryOutbox } from './outbox';
+import { type OutboxPreview, startOutboxPreview } from './preview';
+
+describe('startOutboxPreview', () => {
+  let outbox: MemoryOutbox;
+  let preview: OutboxPreview;
+
+  beforeEach(async () => {
+    outbox = new MemoryOutbox();
+    await outbox.save({
+      id: 'msg-1',
+      capturedAt: new Date('2026-10-19T10:00:00Z'),
+      payload: {
+        from: 'a@example.com',
+        to: ['b@example.com'],
+        subject: 'Hello <there>',
+        html: '<p>Hello</p>',
+      },
+    });
+    preview = await startOutboxPreview(outbox);
+  });
+
+  afterEach(async () => {
+    await preview.close();
+  });
+
+  it('should list the captured emails', async () => {
+    const response = await fetch(`${preview.url}/`);
+    const page = await response.text();
+
+    expect(preview.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(page).toContain('1 captured email');
+    expect(page).toContain('<td>Hello &lt;there&gt;</td>');
+    expect(page).toContain('<a href="/messages/msg-1">HTML</a>');
+  });
+
+  it('should serve every email as HTML, JSON and EML', async () => {
+    const html = await fetch(`${preview.url}/messages/msg-1`);
+    const json = await fetch(`${preview.url}/messages/msg-1.json`);
+    const eml = await fetch(`${preview.url}/messages/msg-1.eml`);
+
+    expect(html.headers.get('content-security-policy')).toBe('sandbox');
+    expect(await html.text()).toBe('<p>Hello</p>');
+    expect(await json.json()).toMatchObject({ id: 'msg-1', payload: { subject: 'Hello <there>' } });
+    expect(eml.headers.get('content-type')).toBe('message/rfc822');
+    expect(await eml.text()).toContain('Date: Mon, 19 Oct 2026 10:00:00 +0000\r\n');
+  });
+
+  it('should answer unknown paths with 404', async () => {
+    expect((await fetch(`${preview.url}/messages/unknown`)).status).toBe(404);
+    expect((await fetch(`${preview.url}/other`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,141 @@
+import { type IncomingMessage, type ServerResponse, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { toEml } from '../mime';
+import { type CapturedEmail, type OutboxStore, escapeHtml, renderBody } from './outbox';
+
+/**
+ * Options for the outbox preview server
+ */
+export interface OutboxPreviewOptions {
+  /**
+   * Port to listen on (defaults to a random free port)
+   */
+  port?: number;
+
+  /**
+   * Host to listen on (defaults to 127.0.0.1)
+   */
+  host?: string;
+}
+
+/**
+ * A running outbox preview server
+ */
+export interface OutboxPreview {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve a local page listing the captured emails
+ *
+ * Every email can be opened as rendered HTML, as its JSON payload and as an
+ * `.eml` file. Bodies are served with a sandboxing CSP, so scripts never run.
+ *
+ * @example
+ * const preview = await startOutboxPreview(new FileOutbox(), { port: 8025 });
+ * console.log(`Outbox at ${preview.url}`);
+ *
+ * @param store The outbox to preview
+ * @param options Port and host to listen on
+ * @returns The running server
+ */
+export async function startOutboxPreview(
+  store: OutboxStore,
+  options: OutboxPreviewOptions = {}
+): Promise<OutboxPreview> {
+  const server = createServer((req, res) => {
+    handle(store, req, res).catch((error) => {
+      res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(error instanceof Error ? error.message : String(error));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve);
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(':') ? `[${address}]` : address;
+
+  return {
+    url: `http://${host}:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+async function handle(store: OutboxStore, req: IncomingMessage, res: ServerResponse) {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const emails = await store.list();
+
+  if (path === '/') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(renderIndex(emails));
+    return;
+  }
+
+  const match = /^\/messages\/([^/]+?)(\.json|\.eml)?$/.exec(path);
+  const email = match && emails.find((captured) => captured.id === match[1]);
+
+  if (!email) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Not found');
+    return;
+  }
+
+  if (match[2] === '.json') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(email, null, 2));
+  } else if (match[2] === '.eml') {
+    res.writeHead(200, {
+      'Content-Type': 'message/rfc822',
+      'Content-Disposition': `attachment; filename="${email.id}.eml"`,
+    });
+    res.end(toEml(email.payload, { date: email.capturedAt }));
+  } else {
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': 'sandbox',
+    });
+    res.end(renderBody(email.payload));
+  }
+}
+
+function renderIndex(emails: CapturedEmail[]): string {
+  const rows = [...emails]
+    .reverse()
+    .map((email) => {
+      const link = `/messages/${encodeURIComponent(email.id)}`;
+      const cells = [
+        email.capturedAt.toISOString(),
+        email.payload.from,
+        email.payload.to.join(', '),
+        email.payload.subject,
+      ].map((value) => `<td>${escapeHtml(value)}</td>`);
+
+      return `<tr>${cells.join('')}<td><a href="${link}">HTML</a> <a href="${link}.json">JSON</a> <a href="${link}.eml">EML</a></td></tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Lettermint outbox</title>
+<style>body{font-family:system-ui,sans-serif;margin:2rem}table{border-collapse:collapse;width:100%}td,th{border-bottom:1px solid #ddd;padding:.5rem;text-align:left}</style>
+</head>
+<body>
+<h1>Lettermint outbox</h1>
+<p>${emails.length} captured ${emails.length === 1 ? 'email' : 'emails'}</p>
+<table>
+<tr><th>Captured</th><th>From</th><th>To</th><th>Subject</th><th></th></tr>
+${rows}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,164 @@
+import { Lettermint } from './lettermint';
+
+const mockFetch = jest.fn();
+
+const page = <T>(data: T[], nextCursor: string | null, nextPageUrl: string | null = null) => ({
+  ok: true,
+  json: async () => ({
+    data,
+    path: null,
+    per_page: data.length,
+    next_cursor: nextCursor,
+    next_page_url: nextPageUrl,
+    prev_cursor: null,
+    prev_page_url: null,
+  }),
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+});
+
+describe('Paginator', () => {
+  it('follows next_page_url cursors across pages', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        page([{ id: 'd1' }, { id: 'd2' }], 'abc', 'https://api.lettermint.co/v1/domains?cursor=abc')
+      )
+      .mockResolvedValueOnce(page([{ id: 'd3' }], null));
+
+    const api = Lettermint.api('api-token');
+    const ids: string[] = [];
+
+    for await (const domain of api.domains.listAll({ 'filter[status]': 'verified' })) {
+      ids.push(domain.id);
+    }
+
+    expect(ids).toEqual(['d1', 'd2', 'd3']);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.lettermint.co/v1/domains?filter%5Bstatus%5D=verified',
+      'https://api.lettermint.co/v1/domains?filter%5Bstatus%5D=verified&cursor=abc',
+    ]);
+  });
+
+  it('falls back to page[cursor] when no next_page_url is given', async () => {
+    mockFetch
+      .mockResolvedValueOnce(page([{ id: 'w1' }], 'next'))
+      .mockResolvedValueOnce(page([{ id: 'w2' }], null));
+
+    const api = Lettermint.api('api-token');
+
+    await expect(api.webhooks.listAllDeliveries('webhook-1').toArray()).resolves.toEqual([
+      { id: 'w1' },
+      { id: 'w2' },
+    ]);
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://api.lettermint.co/v1/webhooks/webhook-1/deliveries?page%5Bcursor%5D=next'
+    );
+  });
+
+  it('stops fetching when the consumer breaks early', async () => {
+    mockFetch.mockResolvedValue(page([{ id: 'p1' }, { id: 'p2' }], 'more'));
+
+    const api = Lettermint.api('api-token');
+
+    for await (const project of api.projects.listAll()) {
+      expect(project.id).toBe('p1');
+      break;
+    }
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps items with maxItems and sends the page size hint', async () => {
+    mockFetch
+      .mockResolvedValueOnce(page([{ id: 's1' }, { id: 's2' }], 'c2'))
+      .mockResolvedValueOnce(page([{ id: 's3' }, { id: 's4' }], 'c3'));
+
+    const api = Lettermint.api('api-token');
+    const pages = [];
+
+    for await (const current of api.suppressions
+      .listAll({}, { maxItems: 3, pageSize: 2 })
+      .pages()) {
+      pages.push(current.data.map((item) => item.id));
+    }
+
+    expect(pages).toEqual([['s1', 's2'], ['s3']]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://api.lettermint.co/v1/suppressions?page%5Bsize%5D=2'
+    );
+  });
+
+  it('treats a bare array message list as a single page', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [{ id: 'm1' }, { id: 'm2' }] });
+
+    const api = Lettermint.api('api-token');
+
+    await expect(api.messages.listAll().toArray()).resolves.toEqual([{ id: 'm1' }, { id: 'm2' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('listAll helpers', () => {
+  const options = { headers: { 'X-Trace-Id': 'trace-1' } };
+  const helpers: Array<
+    [string, (api: ReturnType<typeof Lettermint.api>) => AsyncIterable<unknown>, string]
+  > = [
+    ['domains.listAll', (api) => api.domains.listAll({}, options), '/domains'],
+    ['messages.listAll', (api) => api.messages.listAll({}, options), '/messages'],
+    ['projects.listAll', (api) => api.projects.listAll({}, options), '/projects'],
+    [
+      'projects.listAllRoutes',
+      (api) => api.projects.listAllRoutes('project-1', {}, options),
+      '/projects/project-1/routes',
+    ],
+    ['suppressions.listAll', (api) => api.suppressions.listAll({}, options), '/suppressions'],
+    ['team.listAllMembers', (api) => api.team.listAllMembers({}, options), '/team/members'],
+    ['webhooks.listAll', (api) => api.webhooks.listAll({}, options), '/webhooks'],
+    [
+      'webhooks.listAllDeliveries',
+      (api) => api.webhooks.listAllDeliveries('webhook-1', {}, options),
+      '/webhooks/webhook-1/deliveries',
+    ],
+  ];
+
+  it.each(helpers)('%s follows next_cursor and forwards request options', async (_, list, path) => {
+    mockFetch
+      .mockResolvedValueOnce(page([{ id: 'a' }], 'c2'))
+      .mockResolvedValueOnce(page([{ id: 'b' }], null));
+
+    const items = [];
+
+    for await (const item of list(Lettermint.api('api-token'))) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      `https://api.lettermint.co/v1${path}`,
+      `https://api.lettermint.co/v1${path}?page%5Bcursor%5D=c2`,
+    ]);
+
+    for (const [, init] of mockFetch.mock.calls) {
+      expect(init.headers).toMatchObject({ 'X-Trace-Id': 'trace-1' });
+    }
+  });
+
+  it('forwards the signal to every page request', async () => {
+    const controller = new AbortController();
+    mockFetch.mockImplementationOnce(async () => {
+      controller.abort(new Error('stopped'));
+      return page([{ id: 'a' }], 'c2');
+    });
+
+    const api = Lettermint.api('api-token');
+
+    await expect(api.domains.listAll({}, { signal: controller.signal }).toArray()).rejects.toThrow(
+      'stopped'
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * A single page of a cursor-paginated list response
+ */
+export interface CursorPage<T> {
+  data: T[];
+  path: string | null;
+  per_page: number;
+  next_cursor: string | null;
+  next_page_url: string | null;
+  prev_cursor: string | null;
+  prev_page_url: string | null;
+}
+
+/**
+ * Options for iterating over a paginated list
+ */
+export interface PaginationOptions {
+  /**
+   * Stop after this many items have been yielded
+   */
+  maxItems?: number;
+
+  /**
+   * Number of items to request per page, sent as `page[size]`
+   */
+  pageSize?: number;
+}
+
+/**
+ * Fetches a single page for the given query parameters
+ */
+export type PageFetcher<T> = (params: Record<string, string>) => Promise<CursorPage<T> | T[]>;
+
+/**
+ * Async iterator that follows the cursors of a paginated list endpoint
+ *
+ * Iterating the paginator yields individual items, `pages()` yields whole pages.
+ *
+ * @example
+ * for await (const domain of api.domains.listAll()) {
+ *   console.log(domain.domain);
+ * }
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  /**
+   * Create a new paginator
+   *
+   * @param fetchPage Function fetching a single page
+   * @param params Query parameters sent with every page request
+   * @param options Pagination options
+   */
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    private readonly params: Record<string, string> = {},
+    private readonly options: PaginationOptions = {}
+  ) {}
+
+  /**
+   * Iterate over the pages of the list
+   *
+   * The last page is truncated when `maxItems` is reached.
+   */
+  public async *pages(): AsyncGenerator<CursorPage<T>, void, undefined> {
+    const { maxItems, pageSize } = this.options;
+    let params: Record<string, string> = {
+      ...this.params,
+      ...(pageSize !== undefined && { 'page[size]': String(pageSize) }),
+    };
+    const seenCursors = new Set<string>();
+    let yielded = 0;
+
+    while (maxItems === undefined || yielded < maxItems) {
+      const page = toCursorPage(await this.fetchPage(params));
+      const data = maxItems === undefined ? page.data : page.data.slice(0, maxItems - yielded);
+
+      yielded += data.length;
+      yield data === page.data ? page : { ...page, data };
+
+      if (!page.next_cursor || seenCursors.has(page.next_cursor)) {
+        return;
+      }
+
+      seenCursors.add(page.next_cursor);
+      params = nextPageParams(params, page);
+    }
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Collect all items into an array
+   *
+   * @returns Promise resolving to every item of every page
+   */
+  public async toArray(): Promise<T[]> {
+    const items: T[] = [];
+
+    for await (const item of this) {
+      items.push(item);
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Normalize list responses that may be returned as a bare array
+ */
+function toCursorPage<T>(response: CursorPage<T> | T[]): CursorPage<T> {
+  if (!Array.isArray(response)) {
+    return response;
+  }
+
+  return {
+    data: response,
+    path: null,
+    per_page: response.length,
+    next_cursor: null,
+    next_page_url: null,
+    prev_cursor: null,
+    prev_page_url: null,
+  };
+}
+
+/**
+ * Build the query parameters for the next page
+ *
+ * The query of `next_page_url` is preferred so the cursor is sent the way the API expects it.
+ */
+function nextPageParams(
+  params: Record<string, string>,
+  page: CursorPage<unknown>
+): Record<string, string> {
+  const next = { ...params };
+
+  if (page.next_page_url) {
+    const url = new URL(page.next_page_url, 'https://api.lettermint.co');
+
+    for (const [key, value] of url.searchParams) {
+      next[key] = value;
+    }
+
+    if (Object.values(next).includes(page.next_cursor as string)) {
+      return next;
+    }
+  }
+
+  next['page[cursor]'] = page.next_cursor as string;
+
+  return next;
+}
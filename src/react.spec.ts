@@ -0,0 +1,117 @@
+import { Lettermint } from './lettermint';
+import { type ReactElementLike, renderReact } from './react';
+
+const mockReactDomServer = {
+  renderToStaticMarkup: (element: ReactElementLike) =>
+    (element.type as (props: unknown) => string)(element.props),
+};
+
+jest.mock('react-dom/server', () => mockReactDomServer, { virtual: true });
+
+const mockFetch = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({ message_id: 'msg_123', status: 'queued' }),
+  } as Response);
+});
+
+const element = (type: (props: { name: string }) => string, name: string): ReactElementLike => ({
+  type,
+  props: { name },
+  key: null,
+});
+
+const Welcome = ({ name }: { name: string }) => `<h1>Welcome, ${name}</h1><p>Thanks!</p>`;
+const Document = ({ name }: { name: string }) => `<html><body><p>Hi ${name}</p></body></html>`;
+
+describe('renderReact', () => {
+  it('should render the element to html', () => {
+    expect(renderReact(element(Welcome, 'John'))).toEqual({
+      html: '<h1>Welcome, John</h1><p>Thanks!</p>',
+    });
+  });
+
+  it('should add a doctype to full documents and derive text when asked', () => {
+    expect(renderReact(element(Document, 'John'), { plainText: true })).toEqual({
+      html: '<!DOCTYPE html><html><body><p>Hi John</p></body></html>',
+      text: 'Hi John',
+    });
+  });
+
+  it('should explain that react-dom is missing', () => {
+    jest.resetModules();
+    jest.doMock(
+      'react-dom/server',
+      () => {
+        throw Object.assign(new Error("Cannot find module 'react-dom/server'"), {
+          code: 'MODULE_NOT_FOUND',
+        });
+      },
+      { virtual: true }
+    );
+    const { renderReact: render } = require('./react');
+    const { LettermintError } = require('./utils/errors');
+
+    expect(() => render(element(Welcome, 'John'))).toThrow(LettermintError);
+    expect(() => render(element(Welcome, 'John'))).toThrow(
+      'Rendering React emails requires the react and react-dom packages to be installed'
+    );
+
+    jest.doMock('react-dom/server', () => mockReactDomServer, { virtual: true });
+  });
+
+  it.each([
+    ['a missing dependency of react-dom', "Cannot find module 'react'", 'MODULE_NOT_FOUND'],
+    ['an error while loading react-dom', 'Unexpected token', undefined],
+  ])('should rethrow %s', (_case, message, code) => {
+    jest.resetModules();
+    jest.doMock(
+      'react-dom/server',
+      () => {
+        throw Object.assign(new Error(message), { code });
+      },
+      { virtual: true }
+    );
+    const { renderReact: render } = require('./react');
+
+    expect(() => render(element(Welcome, 'John'))).toThrow(message);
+
+    jest.doMock('react-dom/server', () => mockReactDomServer, { virtual: true });
+  });
+});
+
+describe('react', () => {
+  it('should send the rendered bodies', async () => {
+    await Lettermint.email('sending-token')
+      .compose()
+      .from('a@example.com')
+      .to('b@example.com')
+      .subject('Welcome')
+      .react(element(Welcome, 'John'), { plainText: true })
+      .send();
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+      html: '<h1>Welcome, John</h1><p>Thanks!</p>',
+      text: 'Welcome, John\n=============\n\nThanks!',
+    });
+  });
+
+  it('should keep an explicit text body without plainText', async () => {
+    await Lettermint.email('sending-token')
+      .from('a@example.com')
+      .to('b@example.com')
+      .subject('Welcome')
+      .text('Welcome, John')
+      .react(element(Welcome, 'John'))
+      .send();
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+      html: '<h1>Welcome, John</h1><p>Thanks!</p>',
+      text: 'Welcome, John',
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { htmlToText } from './html-to-text';
+import { LettermintError } from './utils/errors';
+import { requireOptional } from './utils/require';
+
+/**
+ * Subset of a React element, e.g. the result of `<WelcomeEmail name="John" />`
+ */
+export interface ReactElementLike {
+  type: unknown;
+  props: unknown;
+  key: string | null;
+}
+
+/**
+ * Options for rendering React components
+ */
+export interface ReactRenderOptions {
+  /**
+   * Also derive the plain-text body from the rendered HTML (defaults to false)
+   */
+  plainText?: boolean;
+}
+
+/**
+ * Rendered bodies of a React component
+ */
+export interface RenderedReactEmail {
+  html: string;
+  text?: string;
+}
+
+/**
+ * Render a React element to an HTML document with `react-dom/server`
+ *
+ * `react` and `react-dom` are optional peer dependencies and must be installed
+ * to render components.
+ *
+ * @param element The React element
+ * @param options Render options
+ * @returns The HTML body, and the text body when `plainText` is set
+ * @throws LettermintError When `react-dom` is not installed
+ */
+export function renderReact(
+  element: ReactElementLike,
+  options: ReactRenderOptions = {}
+): RenderedReactEmail {
+  const markup = loadReactDomServer().renderToStaticMarkup(element);
+  const html = /^<html[\s>]/i.test(markup) ? `<!DOCTYPE html>${markup}` : markup;
+
+  return options.plainText ? { html, text: htmlToText(html) } : { html };
+}
+
+/**
+ * Load `react-dom/server` when it is installed
+ */
+function loadReactDomServer(): { renderToStaticMarkup(element: unknown): string } {
+  const server = requireOptional<{ renderToStaticMarkup(element: unknown): string }>(
+    'react-dom/server'
+  );
+
+  if (!server) {
+    throw new LettermintError(
+      'Rendering React emails requires the react and react-dom packages to be installed'
+    );
+  }
+
+  return server;
+}
@@ -0,0 +1,163 @@
+import { LettermintClient } from './client';
+import { type SpanLike, routeTemplate } from './telemetry';
+
+const mockFetch = jest.fn();
+
+const createTracer = () => {
+  const spans: Array<{
+    name: string;
+    options: unknown;
+    attributes: Record<string, unknown>;
+    status?: { code: number };
+    exceptions: unknown[];
+    ended: boolean;
+  }> = [];
+
+  const tracer = {
+    startSpan: jest.fn((name: string, options?: { attributes?: Record<string, unknown> }) => {
+      const record = {
+        name,
+        options,
+        attributes: { ...options?.attributes },
+        status: undefined as { code: number } | undefined,
+        exceptions: [] as unknown[],
+        ended: false,
+      };
+      spans.push(record);
+
+      const span: SpanLike = {
+        setAttribute: (key, value) => {
+          record.attributes[key] = value;
+        },
+        setStatus: (status) => {
+          record.status = status;
+        },
+        recordException: (exception) => {
+          record.exceptions.push(exception);
+        },
+        end: () => {
+          record.ended = true;
+        },
+      };
+
+      return span;
+    }),
+  };
+
+  return { tracer, spans };
+};
+
+const createMeter = () => {
+  const durations: Array<[number, Record<string, unknown>]> = [];
+  const errors: Array<[number, Record<string, unknown>]> = [];
+
+  const meter = {
+    createHistogram: () => ({
+      record: (value: number, attributes?: Record<string, unknown>) => {
+        durations.push([value, attributes || {}]);
+      },
+    }),
+    createCounter: () => ({
+      add: (value: number, attributes?: Record<string, unknown>) => {
+        errors.push([value, attributes || {}]);
+      },
+    }),
+  };
+
+  return { meter, durations, errors };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+});
+
+describe('routeTemplate', () => {
+  it('replaces identifiers with placeholders', () => {
+    expect(routeTemplate('/domains/dom_123')).toBe('/domains/{id}');
+    expect(routeTemplate('/domains/dom_123/dns-records/rec_1/verify')).toBe(
+      '/domains/{id}/dns-records/{id}/verify'
+    );
+    expect(routeTemplate('/send/batch')).toBe('/send/batch');
+  });
+});
+
+describe('telemetry', () => {
+  it('creates a client span per request with the route template and message id', async () => {
+    const { tracer, spans } = createTracer();
+    const { meter, durations, errors } = createMeter();
+    const client = new LettermintClient({ apiToken: 'token', telemetry: { tracer, meter } });
+    mockFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify({ message_id: 'msg_123', status: 'queued' }), { status: 202 })
+    );
+
+    await expect(client.post('/send', { subject: 'Hi' })).resolves.toEqual({
+      message_id: 'msg_123',
+      status: 'queued',
+    });
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: 'POST /send',
+        options: expect.objectContaining({ kind: 2 }),
+        attributes: expect.objectContaining({
+          'http.request.method': 'POST',
+          'url.template': '/send',
+          'server.address': 'api.lettermint.co',
+          'http.response.status_code': 202,
+          'lettermint.attempt': 1,
+          'lettermint.message_id': 'msg_123',
+        }),
+        ended: true,
+      }),
+    ]);
+    expect(durations).toEqual([
+      [
+        expect.any(Number),
+        expect.objectContaining({ 'url.template': '/send', 'http.response.status_code': 202 }),
+      ],
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('records failed attempts on the span and the error counter', async () => {
+    const { tracer, spans } = createTracer();
+    const { meter, errors } = createMeter();
+    const client = new LettermintClient({
+      apiToken: 'token',
+      authMode: 'api',
+      telemetry: { tracer, meter },
+      retry: { maxAttempts: 2, baseDelay: 0, jitter: false },
+    });
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('{}', { status: 404, statusText: 'Not Found' }));
+
+    await expect(client.get('/domains/dom_123')).rejects.toHaveProperty('statusCode', 404);
+
+    expect(spans.map((span) => span.name)).toEqual(['GET /domains/{id}', 'GET /domains/{id}']);
+    expect(spans[0]).toMatchObject({
+      attributes: { 'error.type': 'TypeError', 'lettermint.attempt': 1 },
+      status: { code: 2 },
+      exceptions: [expect.any(TypeError)],
+      ended: true,
+    });
+    expect(spans[1]).toMatchObject({
+      attributes: {
+        'error.type': '404',
+        'http.response.status_code': 404,
+        'http.request.resend_count': 1,
+        'lettermint.attempt': 2,
+      },
+      ended: true,
+    });
+    expect(errors).toHaveLength(2);
+  });
+
+  it('falls back to a no-op when @opentelemetry/api is not installed', async () => {
+    const client = new LettermintClient({ apiToken: 'token', telemetry: true });
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+    await expect(client.get('/team')).resolves.toEqual({});
+  });
+});
@@ -0,0 +1,255 @@
+import { version } from '../package.json';
+import type { RequestContext } from './middleware';
+import { HttpRequestError } from './utils/errors';
+import { requireOptional } from './utils/require';
+
+type Attributes = Record<string, string | number | boolean>;
+
+/**
+ * Subset of the OpenTelemetry `Span` interface used by the SDK
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry `Tracer` interface used by the SDK
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): SpanLike;
+}
+
+/**
+ * Subset of the OpenTelemetry `Meter` interface used by the SDK
+ */
+export interface MeterLike {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: Attributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: Attributes): void };
+}
+
+/**
+ * Telemetry options
+ */
+export interface TelemetryConfig {
+  /**
+   * Tracer used to create a span per request attempt
+   * (defaults to the global tracer from `@opentelemetry/api`, when installed)
+   */
+  tracer?: TracerLike;
+
+  /**
+   * Meter used to record request durations and errors
+   * (defaults to the global meter from `@opentelemetry/api`, when installed)
+   */
+  meter?: MeterLike;
+}
+
+/**
+ * Records the outcome of a single request attempt
+ */
+export interface AttemptRecorder {
+  end(response: Response): Promise<void>;
+  fail(error: unknown): void;
+}
+
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Static path segments of the Lettermint API; any other segment is an identifier
+ */
+const STATIC_SEGMENTS = new Set([
+  'batch',
+  'blocked-file-types',
+  'deliveries',
+  'dns-records',
+  'domains',
+  'events',
+  'html',
+  'members',
+  'messages',
+  'ping',
+  'projects',
+  'regenerate-secret',
+  'rotate-token',
+  'routes',
+  'send',
+  'source',
+  'stats',
+  'suppressions',
+  'team',
+  'test',
+  'text',
+  'usage',
+  'verify',
+  'verify-inbound-domain',
+  'webhooks',
+]);
+
+const NOOP_RECORDER: AttemptRecorder = {
+  end: async () => {},
+  fail: () => {},
+};
+
+/**
+ * Turn a request path into a low-cardinality route template, e.g. `/domains/{id}`
+ *
+ * @param path The request path
+ * @returns The route template
+ */
+export function routeTemplate(path: string): string {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+
+  return `/${segments.map((segment) => (STATIC_SEGMENTS.has(segment) ? segment : '{id}')).join('/')}`;
+}
+
+/**
+ * OpenTelemetry-compatible instrumentation for client requests
+ *
+ * Without a tracer or meter every operation is a no-op.
+ */
+export class Telemetry {
+  private readonly tracer?: TracerLike;
+  private readonly duration?: ReturnType<MeterLike['createHistogram']>;
+  private readonly errors?: ReturnType<MeterLike['createCounter']>;
+
+  /**
+   * Create the instrumentation for a client
+   *
+   * @param config `true` to use the global OpenTelemetry providers, or explicit providers
+   */
+  constructor(config?: boolean | TelemetryConfig) {
+    if (!config) {
+      return;
+    }
+
+    const options = config === true ? {} : config;
+    const api = options.tracer && options.meter ? undefined : loadOpenTelemetry();
+
+    this.tracer = options.tracer ?? api?.trace.getTracer('lettermint', version);
+
+    const meter = options.meter ?? api?.metrics.getMeter('lettermint', version);
+
+    this.duration = meter?.createHistogram('lettermint.client.request.duration', {
+      description: 'Duration of Lettermint API requests',
+      unit: 's',
+    });
+    this.errors = meter?.createCounter('lettermint.client.request.errors', {
+      description: 'Number of failed Lettermint API requests',
+    });
+  }
+
+  /**
+   * Start recording a request attempt
+   *
+   * @param context The request context
+   * @returns A recorder to finish the attempt with
+   */
+  public startAttempt(context: RequestContext): AttemptRecorder {
+    if (!this.tracer && !this.duration && !this.errors) {
+      return NOOP_RECORDER;
+    }
+
+    const template = routeTemplate(context.path);
+    const attributes: Attributes = {
+      'http.request.method': context.method,
+      'url.template': template,
+      'server.address': new URL(context.url).hostname,
+    };
+    const span = this.tracer?.startSpan(`${context.method} ${template}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        ...attributes,
+        'lettermint.attempt': context.attempt,
+        ...(context.attempt > 1 && { 'http.request.resend_count': context.attempt - 1 }),
+      },
+    });
+    const startedAt = performance.now();
+
+    const finish = (outcome: Attributes, failed: boolean) => {
+      const metricAttributes = { ...attributes, ...outcome };
+
+      this.duration?.record((performance.now() - startedAt) / 1000, metricAttributes);
+
+      if (failed) {
+        this.errors?.add(1, metricAttributes);
+      }
+
+      span?.end();
+    };
+
+    return {
+      end: async (response) => {
+        span?.setAttribute('http.response.status_code', response.status);
+
+        if (response.ok && context.path === '/send') {
+          const messageId = await readMessageId(response);
+
+          if (messageId) {
+            span?.setAttribute('lettermint.message_id', messageId);
+          }
+        }
+
+        if (!response.ok) {
+          span?.setAttribute('error.type', String(response.status));
+          span?.setStatus({ code: SPAN_STATUS_ERROR });
+        }
+
+        finish(
+          {
+            'http.response.status_code': response.status,
+            ...(!response.ok && { 'error.type': String(response.status) }),
+          },
+          !response.ok
+        );
+      },
+      fail: (error) => {
+        const errorType =
+          error instanceof HttpRequestError
+            ? String(error.statusCode)
+            : error instanceof Error
+              ? error.name
+              : 'Error';
+
+        span?.setAttribute('error.type', errorType);
+        span?.recordException(error instanceof Error ? error : String(error));
+        span?.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error instanceof Error ? error.message : undefined,
+        });
+
+        finish({ 'error.type': errorType }, true);
+      },
+    };
+  }
+}
+
+async function readMessageId(response: Response): Promise<string | undefined> {
+  try {
+    const body = await response.clone().json();
+    return typeof body?.message_id === 'string' ? body.message_id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load `@opentelemetry/api` when it is installed
+ */
+function loadOpenTelemetry():
+  | {
+      trace: { getTracer(name: string, version?: string): TracerLike };
+      metrics: { getMeter(name: string, version?: string): MeterLike };
+    }
+  | undefined {
+  return requireOptional('@opentelemetry/api');
+}
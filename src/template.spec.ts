@@ -0,0 +1,181 @@
+import { LettermintClient } from './client';
+import { EmailMessage } from './endpoints/message';
+import { MustacheEngine, type TemplateEngine, personalizeBatch, renderTemplate } from './template';
+import { TemplateError } from './utils/errors';
+
+jest.mock('./client');
+
+describe('MustacheEngine', () => {
+  const engine = new MustacheEngine();
+  const render = (source: string, variables: Record<string, unknown>, html = true) =>
+    engine.render(source, variables, { escape: html, partials: { footer: '-- {{team.name}}' } });
+
+  it('should interpolate dotted names and escape HTML', () => {
+    expect(
+      render('Hi {{user.name}}, {{note}} {{{note}}} {{& note}} {{missing}}!', {
+        user: { name: 'Jane' },
+        note: '<b>"Tom" & Jerry</b>',
+      })
+    ).toBe(
+      'Hi Jane, &lt;b&gt;&quot;Tom&quot; &amp; Jerry&lt;/b&gt; <b>"Tom" & Jerry</b> <b>"Tom" & Jerry</b> !'
+    );
+    expect(render('{{note}}', { note: '<b>' }, false)).toBe('<b>');
+  });
+
+  it('should render sections, inverted sections and comments', () => {
+    const source = [
+      'Items:{{! not rendered }}',
+      '{{#items}}',
+      '- {{name}} x{{quantity}}',
+      '{{/items}}',
+      '{{^items}}',
+      'No items',
+      '{{/items}}',
+      '{{#vip}}VIP{{/vip}}',
+    ].join('\n');
+
+    expect(
+      render(
+        source,
+        {
+          items: [
+            { name: 'Pen', quantity: 2 },
+            { name: 'Ink', quantity: 1 },
+          ],
+          vip: true,
+        },
+        false
+      )
+    ).toBe('Items:\n- Pen x2\n- Ink x1\nVIP');
+    expect(render(source, { items: [] }, false)).toBe('Items:\nNo items\n');
+  });
+
+  it('should render primitive list items as the current scope', () => {
+    expect(render('{{#tags}}[{{.}}]{{/tags}}', { tags: ['news', 'promo'] })).toBe('[news][promo]');
+    expect(render('{{#ids}}{{.}},{{/ids}}', { ids: [1, 2] })).toBe('1,2,');
+  });
+
+  it('should only resolve own properties', () => {
+    expect(
+      render('{{constructor}}{{user.constructor}}{{toString}}{{#__proto__}}x{{/__proto__}}', {
+        user: { name: 'Jane' },
+      })
+    ).toBe('');
+    expect(render('{{items.length}}', { items: ['a', 'b'] })).toBe('2');
+  });
+
+  it('should keep only the most recently used templates parsed', () => {
+    const cached = new MustacheEngine();
+    const cache = (cached as unknown as { cache: Map<string, unknown> }).cache;
+    const options = { escape: false, partials: {} };
+
+    cached.render('first {{name}}', {}, options);
+
+    for (let index = 0; index < 150; index++) {
+      cached.render(`template ${index}`, {}, options);
+      cached.render('first {{name}}', {}, options);
+    }
+
+    expect(cache.size).toBe(100);
+    expect(cache.has('first {{name}}')).toBe(true);
+    expect(cache.has('template 0')).toBe(false);
+    expect(cache.has('template 149')).toBe(true);
+  });
+
+  it('should render partials with the current context', () => {
+    expect(render('Thanks!\n{{> footer}}', { team: { name: 'Acme' } })).toBe('Thanks!\n-- Acme');
+  });
+
+  it('should throw descriptive errors for malformed templates', () => {
+    expect(() => render('{{#items}}open', {})).toThrow(
+      new TemplateError('Unclosed section: items')
+    );
+    expect(() => render('{{/items}}', {})).toThrow('Unexpected closing tag: items');
+    expect(() => render('{{> header}}', {})).toThrow('Unknown partial: header');
+    expect(() =>
+      engine.render('{{> loop}}', {}, { escape: true, partials: { loop: '{{> loop}}' } })
+    ).toThrow('Partials are nested too deeply at: loop');
+  });
+});
+
+describe('renderTemplate', () => {
+  const template = {
+    subject: 'Welcome, {{name}} & co',
+    html: '<p>Hello {{name}}</p>',
+    text: 'Hello {{name}}',
+    layout: {
+      html: '<html><body>{{> content}}</body></html>',
+    },
+  };
+
+  it('should render the subject and text unescaped and wrap the html in its layout', () => {
+    expect(renderTemplate(template, { name: 'Tom & Jerry' })).toEqual({
+      subject: 'Welcome, Tom & Jerry & co',
+      html: '<html><body><p>Hello Tom &amp; Jerry</p></body></html>',
+      text: 'Hello Tom & Jerry',
+    });
+  });
+
+  it('should use a custom engine', () => {
+    const engine: TemplateEngine = {
+      render: jest.fn(
+        (source, variables, options) => `${source}:${variables.name}:${options.escape}`
+      ),
+    };
+
+    expect(renderTemplate({ subject: 's', html: 'h', engine }, { name: 'Jane' })).toEqual({
+      subject: 's:Jane:false',
+      html: 'h:Jane:true',
+    });
+  });
+
+  it('should be available on the message builder', () => {
+    const message = new EmailMessage(new LettermintClient({ apiToken: 'token' }))
+      .from('sender@example.com')
+      .to('jane@example.com')
+      .template({ subject: 'Hi {{name}}', html: '<p>{{name}}</p>' }, { name: 'Jane' });
+
+    expect(message.toPayload()).toEqual({
+      from: 'sender@example.com',
+      to: ['jane@example.com'],
+      subject: 'Hi Jane',
+      html: '<p>Jane</p>',
+    });
+  });
+});
+
+describe('personalizeBatch', () => {
+  it('should render an entry per recipient', () => {
+    const batch = personalizeBatch(
+      { from: 'news@example.com', tag: 'newsletter' },
+      { subject: '{{greeting}}, {{name}}', text: 'Your code: {{code}}' },
+      [
+        { to: 'john@example.com', variables: { name: 'John', code: 'A1' } },
+        {
+          to: ['jane@example.com'],
+          variables: { name: 'Jane', code: 'B2', greeting: 'Hey' },
+          email: { metadata: { user: 'usr_2' } },
+        },
+      ],
+      { greeting: 'Hello' }
+    );
+
+    expect(batch).toEqual([
+      {
+        from: 'news@example.com',
+        tag: 'newsletter',
+        to: ['john@example.com'],
+        subject: 'Hello, John',
+        text: 'Your code: A1',
+      },
+      {
+        from: 'news@example.com',
+        tag: 'newsletter',
+        to: ['jane@example.com'],
+        subject: 'Hey, Jane',
+        text: 'Your code: B2',
+        metadata: { user: 'usr_2' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+import type { BatchEmail } from './batch';
+import type { SendBatchMailRequest } from './types';
+import { TemplateError } from './utils/errors';
+
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * Options passed to a template engine for a single render
+ */
+export interface TemplateRenderOptions {
+  /**
+   * Whether interpolated values must be HTML-escaped (true for html bodies)
+   */
+  escape: boolean;
+
+  /**
+   * Named partials available to the template
+   */
+  partials: Record<string, string>;
+}
+
+/**
+ * Renders template sources, e.g. an adapter for Handlebars or Liquid
+ *
+ * @example
+ * const handlebars: TemplateEngine = {
+ *   render: (source, variables, { escape }) => Handlebars.compile(source, { noEscape: !escape })(variables),
+ * };
+ */
+export interface TemplateEngine {
+  render(source: string, variables: TemplateVariables, options: TemplateRenderOptions): string;
+}
+
+/**
+ * Templates for the parts of an email
+ */
+export interface EmailTemplate {
+  subject?: string;
+  html?: string;
+  text?: string;
+
+  /**
+   * Layouts wrapping the html and text templates, which are included with `{{> content}}`
+   */
+  layout?: { html?: string; text?: string };
+
+  /**
+   * Named partials, included with `{{> name}}`
+   */
+  partials?: Record<string, string>;
+
+  /**
+   * Engine rendering the templates (defaults to the built-in mustache renderer)
+   */
+  engine?: TemplateEngine;
+}
+
+/**
+ * Rendered parts of an email
+ */
+export interface RenderedEmail {
+  subject?: string;
+  html?: string;
+  text?: string;
+}
+
+/**
+ * A recipient of a personalized batch
+ */
+export interface PersonalizedRecipient {
+  to: string | string[];
+
+  /**
+   * Variables for this recipient, merged over the shared variables
+   */
+  variables?: TemplateVariables;
+
+  /**
+   * Fields overriding the base email for this recipient, e.g. metadata
+   */
+  email?: Partial<BatchEmail>;
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; escape: boolean }
+  | { type: 'section'; name: string; inverted: boolean; children: Node[] }
+  | { type: 'partial'; name: string };
+
+const TAG = /\{\{\{\s*(.+?)\s*\}\}\}|\{\{\s*([#^/!>&]?)\s*(.+?)\s*\}\}/gs;
+
+const STANDALONE_TAGS = new Set(['#', '^', '/', '!', '>']);
+
+const MAX_PARTIAL_DEPTH = 20;
+
+const MAX_CACHED_TEMPLATES = 100;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Logic-less mustache renderer
+ *
+ * Supports `{{name}}` (escaped in html), `{{{name}}}` and `{{& name}}` (raw),
+ * dotted names, sections (`{{#items}}…{{/items}}`), inverted sections
+ * (`{{^items}}…{{/items}}`), comments (`{{! … }}`) and partials (`{{> name}}`).
+ * Inside a section over a list, `{{.}}` is the current item. The most recently
+ * used templates are kept parsed.
+ */
+export class MustacheEngine implements TemplateEngine {
+  private readonly cache = new Map<string, Node[]>();
+
+  public render(
+    source: string,
+    variables: TemplateVariables,
+    options: TemplateRenderOptions
+  ): string {
+    return this.renderNodes(this.parse(source), [variables], options, 0);
+  }
+
+  private parse(source: string): Node[] {
+    let nodes = this.cache.get(source);
+
+    if (nodes) {
+      // Move the template to the end, which holds the most recently used ones
+      this.cache.delete(source);
+    } else {
+      nodes = parse(source);
+
+      if (this.cache.size >= MAX_CACHED_TEMPLATES) {
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    }
+
+    this.cache.set(source, nodes);
+
+    return nodes;
+  }
+
+  private renderNodes(
+    nodes: Node[],
+    stack: unknown[],
+    options: TemplateRenderOptions,
+    depth: number
+  ): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.value;
+      } else if (node.type === 'variable') {
+        const value = lookup(stack, node.name);
+        const text = value === undefined || value === null ? '' : String(value);
+        output += node.escape && options.escape ? escapeHtml(text) : text;
+      } else if (node.type === 'partial') {
+        const partial = options.partials[node.name];
+
+        if (partial === undefined) {
+          throw new TemplateError(`Unknown partial: ${node.name}`);
+        }
+
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(`Partials are nested too deeply at: ${node.name}`);
+        }
+
+        output += this.renderNodes(this.parse(partial), stack, options, depth + 1);
+      } else {
+        const value = lookup(stack, node.name);
+        const empty = !value || (Array.isArray(value) && value.length === 0);
+
+        if (node.inverted) {
+          output += empty ? this.renderNodes(node.children, stack, options, depth) : '';
+        } else if (!empty) {
+          const items = Array.isArray(value) ? value : [value];
+
+          for (const item of items) {
+            output += this.renderNodes(node.children, [...stack, item], options, depth);
+          }
+        }
+      }
+    }
+
+    return output;
+  }
+}
+
+const defaultEngine = new MustacheEngine();
+
+/**
+ * Render the subject, html and text templates of an email
+ *
+ * The html template is HTML-escaped, the subject and text are not.
+ *
+ * @param template The email templates
+ * @param variables Variables available to the templates
+ * @returns The rendered parts, for the templates that were given
+ * @throws TemplateError When a template is malformed or uses an unknown partial
+ */
+export function renderTemplate(
+  template: EmailTemplate,
+  variables: TemplateVariables = {}
+): RenderedEmail {
+  const engine = template.engine ?? defaultEngine;
+  const partials = template.partials ?? {};
+  const rendered: RenderedEmail = {};
+
+  const renderPart = (source: string, layout: string | undefined, html: boolean) =>
+    engine.render(layout ?? source, variables, {
+      escape: html,
+      partials: layout === undefined ? partials : { ...partials, content: source },
+    });
+
+  if (template.subject !== undefined) {
+    rendered.subject = engine.render(template.subject, variables, { escape: false, partials });
+  }
+
+  if (template.html !== undefined) {
+    rendered.html = renderPart(template.html, template.layout?.html, true);
+  }
+
+  if (template.text !== undefined) {
+    rendered.text = renderPart(template.text, template.layout?.text, false);
+  }
+
+  return rendered;
+}
+
+/**
+ * Render a template for every recipient into batch entries
+ *
+ * @example
+ * await email.sendBatch(
+ *   personalizeBatch({ from: 'news@example.com' }, template, [
+ *     { to: 'john@example.com', variables: { name: 'John' } },
+ *   ])
+ * );
+ *
+ * @param base Fields shared by every email, such as `from` and `tag`
+ * @param template The email templates
+ * @param recipients The recipients with their own variables
+ * @param variables Variables shared by every recipient
+ * @returns The batch payload, one entry per recipient
+ */
+export function personalizeBatch(
+  base: Omit<BatchEmail, 'to' | 'subject'> & { subject?: string },
+  template: EmailTemplate,
+  recipients: PersonalizedRecipient[],
+  variables: TemplateVariables = {}
+): SendBatchMailRequest {
+  return recipients.map((recipient) => ({
+    ...base,
+    subject: base.subject ?? '',
+    to: Array.isArray(recipient.to) ? recipient.to : [recipient.to],
+    ...renderTemplate(template, { ...variables, ...recipient.variables }),
+    ...recipient.email,
+  }));
+}
+
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  const sections: Array<{ name: string; children: Node[] }> = [{ name: '', children: root }];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const kind = match[1] !== undefined ? '{' : match[2];
+    const name = match[1] ?? match[3];
+    const current = sections[sections.length - 1].children;
+    let textEnd = match.index;
+    let next = match.index + match[0].length;
+
+    // Tags other than variables on a line of their own do not leave an empty line behind.
+    // The skipped whitespace cannot hold a tag, so the next match is not affected.
+    if (STANDALONE_TAGS.has(kind)) {
+      const lineStart = source.lastIndexOf('\n', match.index - 1) + 1;
+      const lineEnd = source.indexOf('\n', next);
+      const after = source.slice(next, lineEnd === -1 ? source.length : lineEnd);
+
+      if (lineStart >= last && /^[ \t]*$/.test(source.slice(lineStart, match.index))) {
+        if (/^[ \t\r]*$/.test(after)) {
+          textEnd = lineStart;
+          next = lineEnd === -1 ? source.length : lineEnd + 1;
+        }
+      }
+    }
+
+    if (textEnd > last) {
+      current.push({ type: 'text', value: source.slice(last, textEnd) });
+    }
+
+    last = next;
+
+    if (kind === '#' || kind === '^') {
+      const section: Node = { type: 'section', name, inverted: kind === '^', children: [] };
+      current.push(section);
+      sections.push({ name, children: section.children });
+    } else if (kind === '/') {
+      if (sections.length === 1 || sections[sections.length - 1].name !== name) {
+        throw new TemplateError(`Unexpected closing tag: ${name}`);
+      }
+
+      sections.pop();
+    } else if (kind === '>') {
+      current.push({ type: 'partial', name });
+    } else if (kind !== '!') {
+      current.push({ type: 'variable', name, escape: kind === '' });
+    }
+  }
+
+  if (sections.length > 1) {
+    throw new TemplateError(`Unclosed section: ${sections[sections.length - 1].name}`);
+  }
+
+  if (last < source.length) {
+    root.push({ type: 'text', value: source.slice(last) });
+  }
+
+  return root;
+}
+
+function lookup(stack: unknown[], name: string): unknown {
+  if (name === '.') {
+    return stack[stack.length - 1];
+  }
+
+  const [first, ...rest] = name.split('.');
+
+  for (let index = stack.length - 1; index >= 0; index--) {
+    const scope = stack[index];
+
+    if (hasOwn(scope, first)) {
+      return rest.reduce<unknown>(
+        (value, key) => (hasOwn(value, key) ? value[key] : undefined),
+        scope[first]
+      );
+    }
+  }
+
+  return undefined;
+}
+
+// Templates only see own properties, never prototype members such as `constructor`
+function hasOwn(value: unknown, key: string): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && Object.prototype.hasOwnProperty.call(value, key)
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character]);
+}
@@ -0,0 +1,4 @@
+export * from './matchers';
+export * from './mock-api';
+export * from './mock-lettermint';
+export * from './mock-server';
@@ -0,0 +1,174 @@
+import { MemoryOutbox } from '../outbox/outbox';
+import type { CapturedEmail } from '../outbox/outbox';
+import type { EmailPayload } from '../types';
+import { MockLettermint } from './mock-lettermint';
+
+/**
+ * Fields a sent email is expected to have
+ *
+ * Addresses match when the email was sent to all of them, ignoring display
+ * names and case. Strings match exactly and regular expressions are tested;
+ * other fields are compared with `equals`.
+ */
+export interface SentEmailExpectation
+  extends Partial<
+    Omit<EmailPayload, 'from' | 'to' | 'cc' | 'bcc' | 'reply_to' | 'subject' | 'html' | 'text'>
+  > {
+  from?: string | RegExp;
+  to?: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  reply_to?: string | string[];
+  subject?: string | RegExp;
+  html?: string | RegExp;
+  text?: string | RegExp;
+  idempotencyKey?: string;
+}
+
+/**
+ * Anything the matchers can read sent emails from
+ */
+export type SentEmailSource = MockLettermint | MemoryOutbox | readonly CapturedEmail[];
+
+/**
+ * The parts of the matcher context of Jest and Vitest used by the matchers
+ */
+interface MatcherContext {
+  isNot?: boolean;
+  equals(a: unknown, b: unknown): boolean;
+  utils: { printExpected(value: unknown): string; printReceived(value: unknown): string };
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message(): string;
+}
+
+/**
+ * Matchers asserting on sent emails, to register with `expect.extend()`
+ *
+ * @example
+ * expect.extend(lettermintMatchers);
+ *
+ * expect(lettermint).toHaveSentEmail({ to: 'john@example.com', subject: /welcome/i });
+ * expect(lettermint).toHaveSentEmails(2);
+ */
+export const lettermintMatchers = {
+  toHaveSentEmail(
+    this: MatcherContext,
+    received: SentEmailSource,
+    expected: SentEmailExpectation = {}
+  ): MatcherResult {
+    const emails = sentEmails(received);
+    const pass = emails.some((email) => matchesEmail(this, email, expected));
+    const summary = emails
+      .map(({ payload }) => `  - ${payload.subject} (to ${payload.to.join(', ')})`)
+      .join('\n');
+
+    return {
+      pass,
+      message: () =>
+        [
+          `Expected ${this.isNot ? 'no' : 'an'} email matching ${this.utils.printExpected(expected)} to have been sent.`,
+          emails.length === 0 ? 'No emails were sent.' : `Sent emails:\n${summary}`,
+        ].join('\n\n'),
+    };
+  },
+
+  toHaveSentEmails(this: MatcherContext, received: SentEmailSource, count: number): MatcherResult {
+    const { length } = sentEmails(received);
+
+    return {
+      pass: length === count,
+      message: () =>
+        `Expected ${this.isNot ? 'not ' : ''}${this.utils.printExpected(count)} sent emails, ` +
+        `received ${this.utils.printReceived(length)}.`,
+    };
+  },
+};
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      /**
+       * Assert that an email matching the expectation was sent
+       */
+      toHaveSentEmail(expected?: SentEmailExpectation): R;
+
+      /**
+       * Assert the number of sent emails
+       */
+      toHaveSentEmails(count: number): R;
+    }
+  }
+}
+
+function sentEmails(received: SentEmailSource): readonly CapturedEmail[] {
+  if (received instanceof MockLettermint) {
+    return received.sent;
+  }
+
+  if (received instanceof MemoryOutbox) {
+    return received.messages;
+  }
+
+  if (Array.isArray(received)) {
+    return received;
+  }
+
+  throw new TypeError('Expected a MockLettermint, a MemoryOutbox or an array of captured emails');
+}
+
+function matchesEmail(
+  context: MatcherContext,
+  email: CapturedEmail,
+  expected: SentEmailExpectation
+): boolean {
+  const { payload } = email;
+
+  return Object.entries(expected).every(([key, value]) => {
+    if (value === undefined) {
+      return true;
+    }
+
+    switch (key) {
+      case 'to':
+      case 'cc':
+      case 'bcc':
+      case 'reply_to':
+        return includesAddresses(payload[key], value as string | string[]);
+      case 'from':
+        return matchesValue(payload.from, value) || matchesValue(addressOf(payload.from), value);
+      case 'subject':
+      case 'html':
+      case 'text':
+        return matchesValue(payload[key], value);
+      case 'idempotencyKey':
+        return email.idempotencyKey === value;
+      default:
+        return context.equals(payload[key as keyof EmailPayload], value);
+    }
+  });
+}
+
+function includesAddresses(actual: string[] | undefined, expected: string | string[]): boolean {
+  const addresses = new Set((actual ?? []).map(addressOf));
+
+  return (Array.isArray(expected) ? expected : [expected]).every((address) =>
+    addresses.has(addressOf(address))
+  );
+}
+
+function matchesValue(actual: string | null | undefined, expected: unknown): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === 'string' && expected.test(actual);
+  }
+
+  return actual === expected;
+}
+
+function addressOf(address: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(address);
+
+  return (match ? match[1] : address).trim().toLowerCase();
+}
@@ -0,0 +1,1487 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { toEml } from '../mime';
+import type { CapturedEmail } from '../outbox/outbox';
+import type {
+  DomainData,
+  DomainDnsRecordData,
+  DomainListData,
+  DomainStatus,
+  EmailPayload,
+  MessageData,
+  MessageEventData,
+  MessageListData,
+  MessageRecipientData,
+  ProjectData,
+  ProjectListData,
+  RouteData,
+  RouteType,
+  SendMailResponse,
+  StatsDailyData,
+  StatsTotalsData,
+  StoreProjectData,
+  StoreSuppressionData,
+  StoreWebhookData,
+  SuppressedRecipientData,
+  TeamData,
+  TeamMemberData,
+  UpdateDomainProjectsData,
+  UpdateProjectData,
+  UpdateProjectMembersData,
+  UpdateRouteData,
+  UpdateRouteInboundSettingsData,
+  UpdateTeamData,
+  UpdateWebhookData,
+  WebhookData,
+  WebhookDeliveryData,
+  WebhookDeliveryListData,
+  WebhookListData,
+} from '../types';
+import { validateBatchPayload, validateEmailPayload } from '../validation';
+
+/**
+ * A request as seen by the mock API
+ */
+export interface MockRequest {
+  method: string;
+
+  /**
+   * Path relative to the API base URL, e.g. `/domains/123`
+   */
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+/**
+ * A response of the mock API; string bodies are sent as text, others as JSON
+ */
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for the mock API
+ */
+export interface MockApiOptions {
+  /**
+   * Project token accepted in the `x-lettermint-token` header (defaults to any token)
+   */
+  sendingToken?: string;
+
+  /**
+   * Team token accepted as `Authorization: Bearer` token (defaults to any token)
+   */
+  apiToken?: string;
+
+  /**
+   * Page size of lists requested without `page[size]` (defaults to 30)
+   */
+  pageSize?: number;
+}
+
+/**
+ * A failure the mock API returns instead of handling a request
+ *
+ * - `validation` answers 422, thrown as a `ValidationError`
+ * - `rate-limit` answers 429 with a `Retry-After` in seconds, thrown as a `RateLimitError`
+ * - `server-error` answers 500 (or the given status), thrown as a `ServerError`
+ * - `timeout` never answers, thrown as a `TimeoutError`
+ */
+export type ScriptedFailure =
+  | { type: 'validation'; errors?: Record<string, string[]>; message?: string }
+  | { type: 'rate-limit'; retryAfter?: number }
+  | { type: 'server-error'; status?: number }
+  | { type: 'timeout' };
+
+/**
+ * Requests a scripted failure applies to
+ */
+export interface FailureMatcher {
+  /**
+   * HTTP method (defaults to any)
+   */
+  method?: string;
+
+  /**
+   * Exact path or pattern (defaults to any)
+   */
+  path?: string | RegExp;
+
+  /**
+   * Number of matching requests to fail (defaults to 1)
+   */
+  times?: number;
+}
+
+/**
+ * An email stored by the mock API, with the message it created
+ */
+export interface StoredMessage {
+  data: MessageData;
+  payload: EmailPayload;
+  events: MessageEventData[];
+}
+
+type ResponseFailure = Exclude<ScriptedFailure, { type: 'timeout' }>;
+
+type Handler = (request: MockRequest, params: string[]) => MockResponse;
+
+interface PendingFailure {
+  failure: ScriptedFailure;
+  matcher: FailureMatcher;
+  remaining: number;
+}
+
+interface IdempotentResponse {
+  body: string;
+  response: MockResponse;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+const SENDING_PATHS = new Set(['/send', '/send/batch']);
+
+const ROUTE_TYPES: RouteType[] = ['transactional', 'broadcast', 'inbound'];
+
+/**
+ * Thrown by the mock transport to emulate a request that never completes
+ */
+export class MockTimeout extends Error {
+  public override readonly name = 'AbortError';
+
+  constructor() {
+    super('The operation was aborted');
+  }
+}
+
+/**
+ * In-memory emulation of the Lettermint API
+ *
+ * Keeps the team and its members, domains, projects, routes, webhooks and
+ * their deliveries, suppressions and sent messages, records every send and
+ * returns scripted failures. Requests are checked like the API does: sends
+ * need a project token in `x-lettermint-token`, the other endpoints a Bearer
+ * token, payloads are validated, lists are paginated by cursor and repeated
+ * `Idempotency-Key` requests are answered from the first response.
+ *
+ * Nothing leaves the process: DNS records and inbound domains always verify,
+ * webhook tests are recorded as pending deliveries and stats count the stored
+ * messages by their status.
+ */
+export class MockApi {
+  public team: TeamData = createTeam();
+
+  /**
+   * Members of the team, starting with its owner
+   */
+  public readonly members = new Map<string, TeamMemberData>(ownerEntries());
+  public readonly domains = new Map<string, DomainData>();
+  public readonly projects = new Map<string, ProjectData>();
+  public readonly routes = new Map<string, RouteData>();
+  public readonly webhooks = new Map<string, WebhookData>();
+  public readonly deliveries = new Map<string, WebhookDeliveryData>();
+  public readonly suppressions = new Map<string, SuppressedRecipientData>();
+  public readonly messages = new Map<string, StoredMessage>();
+
+  /**
+   * Every email sent, in order
+   */
+  public readonly sent: CapturedEmail[] = [];
+
+  private failures: PendingFailure[] = [];
+  private readonly idempotentResponses = new Map<string, IdempotentResponse>();
+
+  private readonly handlers: Array<[method: string, pattern: RegExp, handler: Handler]> = [
+    ['GET', /^\/ping$/, () => ({ status: 200, body: 'pong' })],
+    ['POST', /^\/send$/, (request) => this.send(request)],
+    ['POST', /^\/send\/batch$/, (request) => this.sendBatch(request)],
+    ['GET', /^\/domains$/, (request) => this.page(request, this.domains, domainListItem)],
+    ['POST', /^\/domains$/, (request) => this.createDomain(request)],
+    ['GET', /^\/domains\/([^/]+)$/, (_, [id]) => found(this.domains.get(id))],
+    ['DELETE', /^\/domains\/([^/]+)$/, (_, [id]) => this.remove(this.domains, id, 'Domain')],
+    ['POST', /^\/domains\/([^/]+)\/dns-records\/verify$/, (_, [id]) => this.verifyDns(id)],
+    [
+      'POST',
+      /^\/domains\/([^/]+)\/dns-records\/([^/]+)\/verify$/,
+      (_, [id, recordId]) => this.verifyDns(id, recordId),
+    ],
+    [
+      'PUT',
+      /^\/domains\/([^/]+)\/projects$/,
+      (request, [id]) => this.updateDomainProjects(request, id),
+    ],
+    ['GET', /^\/projects$/, (request) => this.page(request, this.projects, this.projectListItem)],
+    ['POST', /^\/projects$/, (request) => this.createProject(request)],
+    ['GET', /^\/projects\/([^/]+)$/, (_, [id]) => found(this.projects.get(id))],
+    ['PUT', /^\/projects\/([^/]+)$/, (request, [id]) => this.updateProject(request, id)],
+    ['DELETE', /^\/projects\/([^/]+)$/, (_, [id]) => this.deleteProject(id)],
+    ['POST', /^\/projects\/([^/]+)\/rotate-token$/, (_, [id]) => this.rotateToken(id)],
+    ['PUT', /^\/projects\/([^/]+)\/members$/, (request, [id]) => this.updateMembers(request, id)],
+    [
+      'POST',
+      /^\/projects\/([^/]+)\/members\/([^/]+)$/,
+      (_, [id, memberId]) => this.addMember(id, memberId),
+    ],
+    [
+      'DELETE',
+      /^\/projects\/([^/]+)\/members\/([^/]+)$/,
+      (_, [id, memberId]) => this.removeMember(id, memberId),
+    ],
+    ['GET', /^\/projects\/([^/]+)\/routes$/, (request, [id]) => this.listRoutes(request, id)],
+    ['POST', /^\/projects\/([^/]+)\/routes$/, (request, [id]) => this.createRoute(request, id)],
+    ['GET', /^\/routes\/([^/]+)$/, (_, [id]) => found(this.routes.get(id))],
+    ['PUT', /^\/routes\/([^/]+)$/, (request, [id]) => this.updateRoute(request, id)],
+    ['DELETE', /^\/routes\/([^/]+)$/, (_, [id]) => this.remove(this.routes, id, 'Route')],
+    ['POST', /^\/routes\/([^/]+)\/verify-inbound-domain$/, (_, [id]) => this.verifyInbound(id)],
+    ['GET', /^\/stats$/, (request) => this.stats(request)],
+    ['GET', /^\/team$/, () => ({ status: 200, body: this.teamData() })],
+    ['PUT', /^\/team$/, (request) => this.updateTeam(request)],
+    ['GET', /^\/team\/usage$/, () => this.usage()],
+    ['GET', /^\/team\/members$/, (request) => this.page(request, this.members)],
+    ['GET', /^\/webhooks$/, (request) => this.page(request, this.webhooks, webhookListItem)],
+    ['POST', /^\/webhooks$/, (request) => this.createWebhook(request)],
+    ['GET', /^\/webhooks\/([^/]+)$/, (_, [id]) => found(withoutSecret(this.webhooks.get(id)))],
+    ['PUT', /^\/webhooks\/([^/]+)$/, (request, [id]) => this.updateWebhook(request, id)],
+    ['DELETE', /^\/webhooks\/([^/]+)$/, (_, [id]) => this.remove(this.webhooks, id, 'Webhook')],
+    ['POST', /^\/webhooks\/([^/]+)\/regenerate-secret$/, (_, [id]) => this.regenerateSecret(id)],
+    ['POST', /^\/webhooks\/([^/]+)\/test$/, (_, [id]) => this.testWebhook(id)],
+    [
+      'GET',
+      /^\/webhooks\/([^/]+)\/deliveries$/,
+      (request, [id]) => this.listDeliveries(request, id),
+    ],
+    [
+      'GET',
+      /^\/webhooks\/([^/]+)\/deliveries\/([^/]+)$/,
+      (_, [id, deliveryId]) => found(this.delivery(id, deliveryId)),
+    ],
+    ['GET', /^\/suppressions$/, (request) => this.page(request, this.suppressions)],
+    ['POST', /^\/suppressions$/, (request) => this.createSuppressions(request)],
+    [
+      'DELETE',
+      /^\/suppressions\/([^/]+)$/,
+      (_, [id]) =>
+        this.remove(this.suppressions, id, 'Email', 'removed from suppression list successfully.'),
+    ],
+    ['GET', /^\/messages$/, (request) => this.page(request, this.messages, messageListItem)],
+    ['GET', /^\/messages\/([^/]+)$/, (_, [id]) => found(this.messages.get(id)?.data)],
+    ['GET', /^\/messages\/([^/]+)\/events$/, (request, [id]) => this.messageEvents(request, id)],
+    ['GET', /^\/messages\/([^/]+)\/(html|text|source)$/, (_, [id, part]) => this.part(id, part)],
+  ];
+
+  /**
+   * Create an in-memory API
+   *
+   * @param options Accepted tokens and the default page size
+   */
+  constructor(public readonly options: MockApiOptions = {}) {}
+
+  /**
+   * Fail the next matching request
+   *
+   * @param failure The failure to return
+   * @param matcher The requests to fail, by default the next request
+   * @returns The current instance for chaining
+   */
+  public failNext(failure: ScriptedFailure, matcher: FailureMatcher = {}): this {
+    this.failures.push({ failure, matcher, remaining: matcher.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Remove all state, recorded sends and pending failures
+   */
+  public reset(): void {
+    this.team = createTeam();
+    this.members.clear();
+
+    for (const [id, member] of ownerEntries()) {
+      this.members.set(id, member);
+    }
+
+    this.domains.clear();
+    this.projects.clear();
+    this.routes.clear();
+    this.webhooks.clear();
+    this.deliveries.clear();
+    this.suppressions.clear();
+    this.messages.clear();
+    this.idempotentResponses.clear();
+    this.sent.length = 0;
+    this.failures = [];
+  }
+
+  /**
+   * Handle a request
+   *
+   * @param request The request
+   * @returns The response
+   * @throws MockTimeout When a timeout was scripted
+   */
+  public handle(request: MockRequest): MockResponse {
+    const failure = this.takeFailure(request);
+
+    if (failure) {
+      return failureResponse(failure);
+    }
+
+    const unauthenticated = this.authenticate(request);
+
+    if (unauthenticated) {
+      return unauthenticated;
+    }
+
+    const key = request.headers.get('Idempotency-Key');
+
+    if (!key || request.method.toUpperCase() !== 'POST') {
+      return this.route(request);
+    }
+
+    const scope = `${request.path} ${key}`;
+    const body = JSON.stringify(request.body ?? null);
+    const previous = this.idempotentResponses.get(scope);
+
+    if (previous) {
+      return previous.body === body
+        ? {
+            ...previous.response,
+            headers: { ...previous.response.headers, 'Idempotent-Replayed': 'true' },
+          }
+        : {
+            status: 409,
+            body: { message: 'The idempotency key was already used for a different request.' },
+          };
+    }
+
+    const response = this.route(request);
+
+    if (response.status < 300) {
+      this.idempotentResponses.set(scope, { body, response });
+    }
+
+    return response;
+  }
+
+  private route(request: MockRequest): MockResponse {
+    for (const [method, pattern, handler] of this.handlers) {
+      const match = pattern.exec(request.path);
+
+      if (match && method === request.method.toUpperCase()) {
+        return handler(request, match.slice(1).map(decodeURIComponent));
+      }
+    }
+
+    return {
+      status: 404,
+      body: { message: `The mock API does not implement ${request.method} ${request.path}.` },
+    };
+  }
+
+  private authenticate(request: MockRequest): MockResponse | undefined {
+    const sendingToken = request.headers.get('x-lettermint-token');
+    const bearer = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') ?? '')?.[1];
+
+    if (request.path === '/ping' && (sendingToken || bearer)) {
+      return accepts(this.options.sendingToken, sendingToken) ||
+        accepts(this.options.apiToken, bearer)
+        ? undefined
+        : unauthenticated('Invalid token.');
+    }
+
+    if (SENDING_PATHS.has(request.path)) {
+      if (!sendingToken) {
+        return unauthenticated(
+          bearer
+            ? 'The sending API expects a project token in the x-lettermint-token header.'
+            : 'Unauthenticated.'
+        );
+      }
+
+      return accepts(this.options.sendingToken, sendingToken)
+        ? undefined
+        : unauthenticated('Invalid token.');
+    }
+
+    if (!bearer) {
+      return unauthenticated(
+        sendingToken
+          ? 'The management API expects a team token as Bearer token.'
+          : 'Unauthenticated.'
+      );
+    }
+
+    return accepts(this.options.apiToken, bearer) ? undefined : unauthenticated('Invalid token.');
+  }
+
+  private takeFailure(request: MockRequest): ResponseFailure | undefined {
+    const pending = this.failures.find(({ matcher }) => {
+      const { method, path } = matcher;
+
+      return (
+        (!method || method.toUpperCase() === request.method.toUpperCase()) &&
+        (!path || (typeof path === 'string' ? path === request.path : path.test(request.path)))
+      );
+    });
+
+    if (!pending) {
+      return undefined;
+    }
+
+    pending.remaining -= 1;
+
+    if (pending.remaining <= 0) {
+      this.failures = this.failures.filter((candidate) => candidate !== pending);
+    }
+
+    if (pending.failure.type === 'timeout') {
+      throw new MockTimeout();
+    }
+
+    return pending.failure;
+  }
+
+  private page<T, R = T>(
+    request: MockRequest,
+    collection: Map<string, T> | T[],
+    toItem: (item: T) => R = (item) => item as unknown as R
+  ): MockResponse {
+    const items = [...collection.values()];
+    const size = Number(request.query.get('page[size]') ?? this.options.pageSize ?? 30);
+    const cursor = request.query.get('page[cursor]');
+    const offset = cursor === null ? 0 : decodeCursor(cursor);
+
+    if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+      return invalid({ 'page.size': [`The page size must be between 1 and ${MAX_PAGE_SIZE}.`] });
+    }
+
+    if (offset === undefined) {
+      return invalid({ 'page.cursor': ['The cursor is invalid.'] });
+    }
+
+    const link = (target: number) => {
+      const query = new URLSearchParams(request.query);
+      query.set('page[cursor]', encodeCursor(target));
+
+      return `${request.path}?${query}`;
+    };
+    const next = offset + size < items.length ? offset + size : undefined;
+    const previous = offset > 0 ? Math.max(0, offset - size) : undefined;
+
+    return {
+      status: 200,
+      body: {
+        data: items.slice(offset, offset + size).map(toItem),
+        path: request.path,
+        per_page: size,
+        next_cursor: next === undefined ? null : encodeCursor(next),
+        next_page_url: next === undefined ? null : link(next),
+        prev_cursor: previous === undefined ? null : encodeCursor(previous),
+        prev_page_url: previous === undefined ? null : link(previous),
+      },
+    };
+  }
+
+  private send(request: MockRequest): MockResponse {
+    const errors = validateEmailPayload(request.body);
+
+    if (Object.keys(errors).length > 0) {
+      return invalid(errors);
+    }
+
+    return { status: 202, body: this.store(request.body as EmailPayload, request) };
+  }
+
+  private sendBatch(request: MockRequest): MockResponse {
+    const errors = validateBatchPayload(request.body);
+
+    if (Object.keys(errors).length > 0) {
+      return invalid(errors);
+    }
+
+    const payloads = request.body as EmailPayload[];
+
+    return { status: 202, body: payloads.map((payload) => this.store(payload, request)) };
+  }
+
+  private store(payload: EmailPayload, request: MockRequest): SendMailResponse {
+    const id = randomUUID();
+    const createdAt = new Date();
+    const idempotencyKey = request.headers.get('Idempotency-Key') ?? undefined;
+    const sender = recipient(payload.from);
+    const data: MessageData = {
+      id,
+      type: 'outbound',
+      status: 'queued',
+      status_changed_at: createdAt.toISOString(),
+      tag: payload.tag ?? null,
+      from_email: sender.email,
+      from_name: sender.name,
+      reply_to: payload.reply_to ?? null,
+      subject: payload.subject,
+      to: payload.to.map(recipient),
+      cc: payload.cc?.map(recipient) ?? null,
+      bcc: payload.bcc?.map(recipient) ?? null,
+      attachments:
+        payload.attachments?.map((attachment) => ({
+          size: Buffer.from(attachment.content, 'base64').byteLength,
+          filename: attachment.filename,
+          content_id: attachment.content_id ?? null,
+          content_type: attachment.content_type ?? 'application/octet-stream',
+        })) ?? null,
+      metadata: payload.metadata ?? null,
+      route_id: payload.route ?? 'outgoing',
+      created_at: createdAt.toISOString(),
+    };
+
+    this.messages.set(id, {
+      data,
+      payload,
+      events: [{ message_id: id, event: 'queued', metadata: null, timestamp: data.created_at }],
+    });
+    this.sent.push({
+      id,
+      capturedAt: createdAt,
+      payload,
+      ...(idempotencyKey && { idempotencyKey }),
+    });
+
+    return { message_id: id, status: 'queued' };
+  }
+
+  private createDomain(request: MockRequest): MockResponse {
+    const { domain } = (request.body ?? {}) as { domain?: string };
+
+    if (!domain) {
+      return invalid({ domain: ['The domain field is required.'] });
+    }
+
+    if ([...this.domains.values()].some((existing) => existing.domain === domain)) {
+      return invalid({ domain: ['The domain has already been taken.'] });
+    }
+
+    const data: DomainData = {
+      id: randomUUID(),
+      domain,
+      status_changed_at: null,
+      dns_records: [
+        dnsRecord(
+          domain,
+          'TXT',
+          'lettermint._domainkey',
+          `v=DKIM1; k=rsa; p=${randomBytes(32).toString('base64')}`
+        ),
+        dnsRecord(domain, 'CNAME', 'lm-bounces', 'bounces.lettermint.co'),
+      ],
+      projects: [],
+      created_at: new Date().toISOString(),
+    };
+
+    this.domains.set(data.id, data);
+
+    return { status: 201, body: data };
+  }
+
+  private verifyDns(id: string, recordId?: string): MockResponse {
+    const domain = this.domains.get(id);
+    const records = domain?.dns_records ?? [];
+
+    if (!domain || (recordId !== undefined && !records.some((record) => record.id === recordId))) {
+      return notFound();
+    }
+
+    const now = new Date().toISOString();
+
+    this.domains.set(id, {
+      ...domain,
+      status_changed_at: now,
+      dns_records: records.map((record) =>
+        recordId === undefined || record.id === recordId
+          ? { ...record, status: 'active', verified_at: now, last_checked_at: now }
+          : record
+      ),
+    });
+
+    return {
+      status: 200,
+      body: {
+        message:
+          recordId === undefined
+            ? 'DNS records verified successfully.'
+            : 'DNS record verified successfully.',
+      },
+    };
+  }
+
+  private updateDomainProjects(request: MockRequest, id: string): MockResponse {
+    const domain = this.domains.get(id);
+
+    if (!domain) {
+      return notFound();
+    }
+
+    const { project_ids } = (request.body ?? {}) as Partial<UpdateDomainProjectsData>;
+    const errors = unknownIds('project_ids', project_ids, this.projects);
+
+    if (!project_ids || errors) {
+      return invalid(errors ?? { project_ids: ['The project ids field is required.'] });
+    }
+
+    const data: DomainData = {
+      ...domain,
+      projects: project_ids.map((projectId) => ({
+        id: projectId,
+        name: (this.projects.get(projectId) as ProjectData).name,
+      })),
+    };
+
+    this.domains.set(id, data);
+
+    return { status: 200, body: { data, message: 'Domain projects updated successfully.' } };
+  }
+
+  private createProject(request: MockRequest): MockResponse {
+    const body = (request.body ?? {}) as Partial<StoreProjectData>;
+
+    if (!body.name) {
+      return invalid({ name: ['The name field is required.'] });
+    }
+
+    const now = new Date().toISOString();
+    const data: ProjectData = {
+      id: randomUUID(),
+      name: body.name,
+      smtp_enabled: body.smtp_enabled ?? false,
+      redact_email_content: false,
+      default_route_id: null,
+      token_generated_at: now,
+      token_last_used_at: null,
+      token_last_used_ip: null,
+      created_at: now,
+      updated_at: now,
+    };
+    const initialRoutes = body.initial_routes ?? 'both';
+
+    this.projects.set(data.id, data);
+
+    for (const routeType of ['transactional', 'broadcast'] as const) {
+      if (initialRoutes === 'both' || initialRoutes === routeType) {
+        const route = this.addRoute(data.id, {
+          name: routeType === 'transactional' ? 'Outgoing' : 'Broadcast',
+          route_type: routeType,
+          slug: routeType === 'transactional' ? 'outgoing' : 'broadcast',
+        });
+
+        data.default_route_id ??= route.id;
+      }
+    }
+
+    return {
+      status: 201,
+      body: {
+        data,
+        message: 'Project created successfully.',
+        api_token: projectToken(),
+      },
+    };
+  }
+
+  private updateProject(request: MockRequest, id: string): MockResponse {
+    const project = this.projects.get(id);
+
+    if (!project) {
+      return notFound();
+    }
+
+    const data: ProjectData = {
+      ...project,
+      ...definedFields((request.body ?? {}) as UpdateProjectData),
+      updated_at: new Date().toISOString(),
+    };
+
+    this.projects.set(id, data);
+
+    return { status: 200, body: { data, message: 'Project updated successfully.' } };
+  }
+
+  private deleteProject(id: string): MockResponse {
+    for (const route of [...this.routes.values()]) {
+      if (route.project_id === id) {
+        this.routes.delete(route.id);
+      }
+    }
+
+    for (const domain of [...this.domains.values()]) {
+      this.domains.set(domain.id, {
+        ...domain,
+        projects: domain.projects?.filter((project) => project.id !== id),
+      });
+    }
+
+    return this.remove(this.projects, id, 'Project');
+  }
+
+  private rotateToken(id: string): MockResponse {
+    const project = this.projects.get(id);
+
+    if (!project) {
+      return notFound();
+    }
+
+    const now = new Date().toISOString();
+    const data: ProjectData = { ...project, token_generated_at: now, updated_at: now };
+
+    this.projects.set(id, data);
+
+    return {
+      status: 200,
+      body: {
+        data,
+        new_token: projectToken(),
+        message: 'Project API token rotated successfully. Please update your integrations.',
+      },
+    };
+  }
+
+  private updateMembers(request: MockRequest, id: string): MockResponse {
+    const project = this.projects.get(id);
+
+    if (!project) {
+      return notFound();
+    }
+
+    const { team_member_ids } = (request.body ?? {}) as Partial<UpdateProjectMembersData>;
+    const errors = unknownIds('team_member_ids', team_member_ids, this.members);
+
+    if (!team_member_ids || errors) {
+      return invalid(errors ?? { team_member_ids: ['The team member ids field is required.'] });
+    }
+
+    const data: ProjectData = {
+      ...project,
+      team_members: team_member_ids.map((memberId) => this.members.get(memberId) as TeamMemberData),
+      updated_at: new Date().toISOString(),
+    };
+
+    this.projects.set(id, data);
+
+    return { status: 200, body: { data, message: 'Project members updated successfully.' } };
+  }
+
+  private addMember(id: string, memberId: string): MockResponse {
+    const project = this.projects.get(id);
+    const member = this.members.get(memberId);
+
+    if (!project || !member) {
+      return notFound();
+    }
+
+    const members = project.team_members ?? [];
+
+    this.projects.set(id, {
+      ...project,
+      team_members: members.some(({ id }) => id === memberId) ? members : [...members, member],
+    });
+
+    return { status: 200, body: { message: 'Team member added to project successfully.' } };
+  }
+
+  private removeMember(id: string, memberId: string): MockResponse {
+    const project = this.projects.get(id);
+    const members = project?.team_members ?? [];
+
+    if (!project || !members.some(({ id }) => id === memberId)) {
+      return notFound();
+    }
+
+    this.projects.set(id, {
+      ...project,
+      team_members: members.filter((member) => member.id !== memberId),
+    });
+
+    return { status: 200, body: { message: 'Team member removed from project successfully.' } };
+  }
+
+  private readonly projectListItem = (project: ProjectData): ProjectListData => ({
+    id: project.id,
+    name: project.name,
+    smtp_enabled: project.smtp_enabled,
+    routes_count: [...this.routes.values()].filter((route) => route.project_id === project.id)
+      .length,
+    domains_count: [...this.domains.values()].filter((domain) =>
+      domain.projects?.some(({ id }) => id === project.id)
+    ).length,
+    team_members_count: project.team_members?.length ?? 0,
+    last_28_days: {
+      messages_transactional: 0,
+      messages_broadcast: 0,
+      messages_inbound: 0,
+      deliverability: 0,
+    },
+    created_at: project.created_at,
+    updated_at: project.updated_at,
+  });
+
+  private listRoutes(request: MockRequest, projectId: string): MockResponse {
+    return this.page(
+      request,
+      [...this.routes.values()].filter((route) => route.project_id === projectId),
+      ({ project_id, ...route }) => ({
+        ...route,
+        webhooks_count: [...this.webhooks.values()].filter(
+          (webhook) => webhook.route_id === route.id
+        ).length,
+        suppressed_recipients_count: [...this.suppressions.values()].filter(
+          (suppression) => suppression.route_id === route.id
+        ).length,
+      })
+    );
+  }
+
+  private createRoute(request: MockRequest, projectId: string): MockResponse {
+    const { name, route_type, slug } = (request.body ?? {}) as {
+      name?: string;
+      route_type?: RouteType;
+      slug?: string | null;
+    };
+    const errors: Record<string, string[]> = {};
+
+    if (!name) {
+      errors.name = ['The name field is required.'];
+    }
+
+    if (!route_type || !ROUTE_TYPES.includes(route_type)) {
+      errors.route_type = ['The selected route type is invalid.'];
+    }
+
+    if (
+      slug &&
+      [...this.routes.values()].some(
+        (route) => route.project_id === projectId && route.slug === slug
+      )
+    ) {
+      errors.slug = ['The slug has already been taken.'];
+    }
+
+    if (Object.keys(errors).length > 0 || !name || !route_type) {
+      return invalid(errors);
+    }
+
+    const data = this.addRoute(projectId, { name, route_type, slug });
+
+    return { status: 201, body: { data, message: 'Route created successfully.' } };
+  }
+
+  private addRoute(
+    projectId: string,
+    { name, route_type, slug }: { name: string; route_type: RouteType; slug?: string | null }
+  ): RouteData {
+    const now = new Date().toISOString();
+    const data: RouteData = {
+      id: randomUUID(),
+      project_id: projectId,
+      slug: slug ?? name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      name,
+      route_type,
+      is_default: false,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.routes.set(data.id, data);
+
+    return data;
+  }
+
+  private updateRoute(request: MockRequest, id: string): MockResponse {
+    const route = this.routes.get(id);
+
+    if (!route) {
+      return notFound();
+    }
+
+    const { name, inbound_settings } = (request.body ?? {}) as UpdateRouteData;
+    const inbound =
+      route.route_type === 'inbound'
+        ? definedFields((inbound_settings ?? {}) as UpdateRouteInboundSettingsData)
+        : {};
+    const data: RouteData = {
+      ...route,
+      ...(name && { name }),
+      ...(inbound as Partial<RouteData>),
+      updated_at: new Date().toISOString(),
+    };
+
+    // A new inbound domain has to be verified again
+    if (inbound.inbound_domain !== undefined && inbound.inbound_domain !== route.inbound_domain) {
+      data.inbound_domain_verified_at = undefined;
+    }
+
+    this.routes.set(id, data);
+
+    return { status: 200, body: { data, message: 'Route updated successfully.' } };
+  }
+
+  private verifyInbound(id: string): MockResponse {
+    const route = this.routes.get(id);
+
+    if (!route) {
+      return notFound();
+    }
+
+    if (route.route_type !== 'inbound' || !route.inbound_domain) {
+      return invalid({ inbound_domain: ['The route has no inbound domain to verify.'] });
+    }
+
+    this.routes.set(id, { ...route, inbound_domain_verified_at: new Date().toISOString() });
+
+    return {
+      status: 200,
+      body: { data: { verified: true, message: 'Inbound domain verified successfully.' } },
+    };
+  }
+
+  private stats(request: MockRequest): MockResponse {
+    const from = request.query.get('from') ?? '';
+    const to = request.query.get('to') ?? '';
+    const errors: Record<string, string[]> = {};
+
+    if (!isDate(from)) {
+      errors.from = ['The from field must be a valid date.'];
+    }
+
+    if (!isDate(to)) {
+      errors.to = ['The to field must be a valid date.'];
+    } else if (isDate(from) && to < from) {
+      errors.to = ['The to field must be a date after or equal to from.'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return invalid(errors);
+    }
+
+    const messages = [...this.messages.values()];
+    const daily: StatsDailyData[] = [];
+
+    for (let date = from; date <= to; date = nextDate(date)) {
+      const sentOn = messages.filter(({ data }) => data.created_at.slice(0, 10) === date);
+
+      daily.push({ date, ...this.statsTotals(sentOn) });
+    }
+
+    return {
+      status: 200,
+      body: {
+        from,
+        to,
+        totals: this.statsTotals(
+          messages.filter(({ data }) => {
+            const date = data.created_at.slice(0, 10);
+
+            return date >= from && date <= to;
+          })
+        ),
+        daily,
+      },
+    };
+  }
+
+  private statsTotals(messages: StoredMessage[]): StatsTotalsData {
+    const outbound = messages.filter(({ data }) => data.type === 'outbound');
+    const count = (list: StoredMessage[], status: MessageData['status']) =>
+      list.filter(({ data }) => data.status === status).length;
+    const byType = (type: RouteType) => {
+      const sent = outbound.filter(({ data }) => this.routeType(data.route_id) === type);
+
+      return {
+        sent: sent.length,
+        hard_bounced: count(sent, 'hard_bounced'),
+        spam_complaints: count(sent, 'spam_complaint'),
+      };
+    };
+
+    return {
+      sent: outbound.length,
+      delivered: count(outbound, 'delivered'),
+      hard_bounced: count(outbound, 'hard_bounced'),
+      spam_complaints: count(outbound, 'spam_complaint'),
+      opened: count(outbound, 'opened'),
+      clicked: count(outbound, 'clicked'),
+      inbound: { received: messages.length - outbound.length },
+      transactional: byType('transactional'),
+      broadcast: byType('broadcast'),
+      effective_opened: null,
+      machine_opened: null,
+      machine_clicked: null,
+    };
+  }
+
+  private routeType(slug: string): RouteType {
+    return (
+      [...this.routes.values()].find((route) => route.slug === slug)?.route_type ?? 'transactional'
+    );
+  }
+
+  private teamData(): TeamData {
+    return {
+      ...this.team,
+      domains_count: this.domains.size,
+      projects_count: this.projects.size,
+      members_count: this.members.size,
+    };
+  }
+
+  private updateTeam(request: MockRequest): MockResponse {
+    this.team = { ...this.team, ...definedFields((request.body ?? {}) as UpdateTeamData) };
+
+    return {
+      status: 200,
+      body: { data: this.teamData(), message: 'Team settings updated successfully.' },
+    };
+  }
+
+  private usage(): MockResponse {
+    const now = new Date();
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
+    const sent = this.sent.filter(({ capturedAt }) => capturedAt >= start);
+
+    return {
+      status: 200,
+      body: {
+        current_period: {
+          usage: sent.length,
+          last_incremented_at: sent[sent.length - 1]?.capturedAt.toISOString() ?? null,
+          period_start: start.toISOString().slice(0, 10),
+          period_end: end.toISOString().slice(0, 10),
+        },
+        historical_usage: [],
+      },
+    };
+  }
+
+  private createWebhook(request: MockRequest): MockResponse {
+    const body = (request.body ?? {}) as Partial<StoreWebhookData>;
+    const errors: Record<string, string[]> = {};
+
+    if (!body.route_id || !this.routes.has(body.route_id)) {
+      errors.route_id = ['The selected route id is invalid.'];
+    }
+
+    if (!body.name) {
+      errors.name = ['The name field is required.'];
+    }
+
+    if (!body.url || !/^https?:\/\//.test(body.url)) {
+      errors.url = ['The url field must be a valid URL.'];
+    }
+
+    if (!Array.isArray(body.events) || body.events.length === 0) {
+      errors.events = ['The events field is required.'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return invalid(errors);
+    }
+
+    const now = new Date().toISOString();
+    const data: WebhookData = {
+      id: randomUUID(),
+      route_id: body.route_id as string,
+      name: body.name as string,
+      url: body.url as string,
+      events: body.events as string[],
+      enabled: body.enabled ?? true,
+      include_machine_events: body.include_machine_events ?? false,
+      secret: webhookSecret(),
+      last_called_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.webhooks.set(data.id, data);
+
+    return {
+      status: 201,
+      body: {
+        data,
+        message:
+          'Webhook created successfully. Please save the secret as it will not be shown again.',
+      },
+    };
+  }
+
+  private updateWebhook(request: MockRequest, id: string): MockResponse {
+    const webhook = this.webhooks.get(id);
+
+    if (!webhook) {
+      return notFound();
+    }
+
+    const data: WebhookData = {
+      ...webhook,
+      ...definedFields((request.body ?? {}) as UpdateWebhookData),
+      updated_at: new Date().toISOString(),
+    };
+
+    this.webhooks.set(id, data);
+
+    return {
+      status: 200,
+      body: { data: withoutSecret(data), message: 'Webhook updated successfully.' },
+    };
+  }
+
+  private regenerateSecret(id: string): MockResponse {
+    const webhook = this.webhooks.get(id);
+
+    if (!webhook) {
+      return notFound();
+    }
+
+    const data = { ...webhook, secret: webhookSecret(), updated_at: new Date().toISOString() };
+
+    this.webhooks.set(id, data);
+
+    return {
+      status: 200,
+      body: {
+        data,
+        message: 'Webhook secret regenerated successfully. Please update your integration.',
+      },
+    };
+  }
+
+  private testWebhook(id: string): MockResponse {
+    if (!this.webhooks.has(id)) {
+      return notFound();
+    }
+
+    const delivery: WebhookDeliveryData = {
+      id: randomUUID(),
+      webhook_id: id,
+      event_type: 'webhook.test',
+      status: 'pending',
+      attempt_number: 1,
+      http_status_code: null,
+      duration_ms: null,
+      payload: [],
+      response_body: null,
+      response_headers: null,
+      error_message: null,
+      delivered_at: null,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.deliveries.set(delivery.id, delivery);
+
+    return {
+      status: 200,
+      body: {
+        message: 'Test webhook dispatched successfully. Check the deliveries endpoint for results.',
+        delivery_id: delivery.id,
+      },
+    };
+  }
+
+  private listDeliveries(request: MockRequest, id: string): MockResponse {
+    if (!this.webhooks.has(id)) {
+      return notFound();
+    }
+
+    return this.page(
+      request,
+      [...this.deliveries.values()].filter((delivery) => delivery.webhook_id === id),
+      deliveryListItem
+    );
+  }
+
+  private delivery(id: string, deliveryId: string): WebhookDeliveryData | undefined {
+    const delivery = this.deliveries.get(deliveryId);
+
+    return delivery?.webhook_id === id ? delivery : undefined;
+  }
+
+  private createSuppressions(request: MockRequest): MockResponse {
+    const body = (request.body ?? {}) as StoreSuppressionData;
+    const emails = [...(body.email ? [body.email] : []), ...(body.emails ?? [])];
+
+    if (emails.length === 0) {
+      return invalid({ email: ['The email field is required when emails is not present.'] });
+    }
+
+    const existing = new Set([...this.suppressions.values()].map(({ value }) => value));
+    const created: string[] = [];
+    const skipped: string[] = [];
+    const now = new Date().toISOString();
+
+    for (const email of emails) {
+      if (existing.has(email)) {
+        skipped.push(email);
+        continue;
+      }
+
+      const id = randomUUID();
+      existing.add(email);
+      created.push(email);
+      this.suppressions.set(id, {
+        id,
+        type: 'email',
+        value: email,
+        reason: body.reason,
+        scope: body.scope,
+        project_id: body.project_id ?? null,
+        route_id: body.route_id ?? null,
+        created_at: now,
+        updated_at: now,
+      });
+    }
+
+    return {
+      status: 201,
+      body: {
+        message:
+          created.length === 0 ? 'No emails were added.' : `${created.length} email(s) added.`,
+        data: { created, skipped },
+      },
+    };
+  }
+
+  private messageEvents(request: MockRequest, id: string): MockResponse {
+    const message = this.messages.get(id);
+
+    return message ? this.page(request, message.events) : notFound();
+  }
+
+  private part(id: string, part: string): MockResponse {
+    const message = this.messages.get(id);
+
+    if (!message) {
+      return notFound();
+    }
+
+    const { payload } = message;
+    const body =
+      part === 'source' ? toEml(payload) : ((part === 'html' ? payload.html : payload.text) ?? '');
+
+    return { status: 200, body };
+  }
+
+  private remove<T>(
+    collection: Map<string, T>,
+    id: string,
+    resource: string,
+    message = 'deleted successfully.'
+  ): MockResponse {
+    if (!collection.delete(id)) {
+      return notFound();
+    }
+
+    return { status: 200, body: { message: `${resource} ${message}` } };
+  }
+}
+
+function accepts(expected: string | undefined, token: string | null | undefined): boolean {
+  return !!token && (expected === undefined || expected === token);
+}
+
+function unauthenticated(message: string): MockResponse {
+  return { status: 401, body: { message } };
+}
+
+function invalid(errors: Record<string, string[]>, message?: string): MockResponse {
+  const [first] = Object.values(errors).flat();
+
+  return {
+    status: 422,
+    body: { message: message ?? first ?? 'The given data was invalid.', errors },
+  };
+}
+
+function found(data: unknown): MockResponse {
+  return data === undefined ? notFound() : { status: 200, body: data };
+}
+
+function notFound(): MockResponse {
+  return { status: 404, body: { message: 'Not found.' } };
+}
+
+function failureResponse(failure: ResponseFailure): MockResponse {
+  switch (failure.type) {
+    case 'validation':
+      return invalid(failure.errors ?? {}, failure.message);
+    case 'rate-limit':
+      return {
+        status: 429,
+        body: { message: 'Too Many Attempts.' },
+        headers: { 'Retry-After': String(failure.retryAfter ?? 1) },
+      };
+    case 'server-error':
+      return { status: failure.status ?? 500, body: { message: 'Server Error' } };
+  }
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | undefined {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    return Number.isInteger(offset) && offset >= 0 ? offset : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function definedFields<T extends object>(fields: T): { [K in keyof T]?: NonNullable<T[K]> } {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== null)
+  ) as { [K in keyof T]?: NonNullable<T[K]> };
+}
+
+function unknownIds(
+  field: string,
+  ids: unknown,
+  collection: Map<string, unknown>
+): Record<string, string[]> | undefined {
+  if (!Array.isArray(ids)) {
+    return undefined;
+  }
+
+  const errors = Object.fromEntries(
+    ids.flatMap((id, index) =>
+      typeof id === 'string' && collection.has(id)
+        ? []
+        : [[`${field}.${index}`, [`The selected ${field}.${index} is invalid.`]]]
+    )
+  );
+
+  return Object.keys(errors).length > 0 ? errors : undefined;
+}
+
+function createTeam(): TeamData {
+  return {
+    id: randomUUID(),
+    name: 'Mock Team',
+    type: 'business',
+    plan: 'free',
+    tier: 300,
+    verified_at: null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function ownerEntries(): Array<[string, TeamMemberData]> {
+  const id = randomUUID();
+  const owner: TeamMemberData = {
+    id,
+    user: { id: randomUUID(), name: 'Team Owner', email: 'owner@example.com', avatar: null },
+    role: 'owner',
+    joined_at: new Date().toISOString(),
+  };
+
+  return [[id, owner]];
+}
+
+function dnsRecord(
+  domain: string,
+  type: DomainDnsRecordData['type'],
+  hostname: string,
+  content: string
+): DomainDnsRecordData {
+  return {
+    id: randomUUID(),
+    type,
+    hostname,
+    fqdn: `${hostname}.${domain}`,
+    content,
+    status: 'pending',
+    verified_at: null,
+    last_checked_at: null,
+  };
+}
+
+function domainStatus(records: DomainDnsRecordData[] = []): DomainStatus {
+  const verified = records.filter((record) => record.status === 'active').length;
+
+  if (verified === 0) {
+    return 'pending_verification';
+  }
+
+  return verified === records.length ? 'verified' : 'partially_verified';
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function nextDate(date: string): string {
+  return new Date(Date.parse(date) + 86_400_000).toISOString().slice(0, 10);
+}
+
+function projectToken(): string {
+  return `lm_${randomBytes(20).toString('hex')}`;
+}
+
+function webhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+function withoutSecret(webhook: WebhookData | undefined): WebhookData | undefined {
+  if (!webhook) {
+    return undefined;
+  }
+
+  const { secret, ...data } = webhook;
+
+  return data;
+}
+
+function domainListItem(data: DomainData): DomainListData {
+  const { id, domain, status_changed_at, created_at } = data;
+
+  return { id, domain, status: domainStatus(data.dns_records), status_changed_at, created_at };
+}
+
+function webhookListItem(webhook: WebhookData): WebhookListData {
+  const { secret, include_machine_events, ...data } = webhook;
+
+  return { ...data, events: data.events as WebhookListData['events'] };
+}
+
+function deliveryListItem(delivery: WebhookDeliveryData): WebhookDeliveryListData {
+  const { payload, response_body, response_headers, error_message, timestamp, ...data } = delivery;
+
+  return { ...data, created_at: timestamp };
+}
+
+function messageListItem({ data }: StoredMessage): MessageListData {
+  const { id, type, status, from_email, from_name, subject, to, cc, bcc, reply_to, tag } = data;
+
+  return {
+    id,
+    type,
+    status,
+    from_email,
+    from_name,
+    subject,
+    to,
+    cc,
+    bcc,
+    reply_to,
+    tag,
+    created_at: data.created_at,
+  };
+}
+
+function recipient(address: string): MessageRecipientData {
+  const match = /^(.*?)\s*<([^<>]+)>$/.exec(address.trim());
+
+  return match
+    ? { email: match[2], name: match[1].replace(/^"(.*)"$/, '$1') || null }
+    : { email: address.trim(), name: null };
+}
@@ -0,0 +1,141 @@
+import type { LettermintClientConfig, Transport } from '../client';
+import { LettermintClient } from '../client';
+import { EmailEndpoint } from '../endpoints/email';
+import { ApiClient } from '../lettermint';
+import type { CapturedEmail } from '../outbox/outbox';
+import { type FailureMatcher, MockApi, type ScriptedFailure } from './mock-api';
+
+/**
+ * Options for a mock Lettermint instance
+ */
+export type MockLettermintOptions = Omit<
+  LettermintClientConfig,
+  'apiToken' | 'authMode' | 'fetch' | 'mode' | 'outbox'
+>;
+
+/**
+ * Fake Lettermint for tests, backed by an in-memory API
+ *
+ * `email` and `api` are the real endpoint classes, so application code under
+ * test runs unchanged while every request is answered from memory.
+ *
+ * @example
+ * const lettermint = new MockLettermint();
+ * await sendWelcome(lettermint.email, 'john@example.com');
+ *
+ * expect(lettermint).toHaveSentEmail({ to: 'john@example.com', subject: 'Welcome' });
+ */
+export class MockLettermint {
+  /**
+   * The in-memory API answering the requests
+   */
+  public readonly server: MockApi;
+
+  /**
+   * Sending API client, the counterpart of `Lettermint.email()`
+   */
+  public readonly email: EmailEndpoint;
+
+  /**
+   * Management API client, the counterpart of `Lettermint.api()`
+   */
+  public readonly api: ApiClient;
+
+  /**
+   * Transport answering from the in-memory API, for clients created elsewhere
+   */
+  public readonly transport: Transport;
+
+  /**
+   * Create a mock Lettermint instance
+   *
+   * @param options Client options applied to `email` and `api`, e.g. `validate`
+   * @param server The in-memory API, e.g. to share state between instances
+   */
+  constructor(options: MockLettermintOptions = {}, server: MockApi = new MockApi()) {
+    const config = { ...options, baseUrl: options.baseUrl ?? 'https://api.lettermint.test/v1' };
+
+    this.server = server;
+    this.transport = mockTransport(server, config.baseUrl);
+    this.email = new EmailEndpoint(
+      new LettermintClient({
+        ...config,
+        apiToken: server.options.sendingToken ?? 'mock-sending-token',
+        fetch: this.transport,
+      })
+    );
+    this.api = new ApiClient(server.options.apiToken ?? 'mock-api-token', {
+      ...config,
+      fetch: this.transport,
+    });
+  }
+
+  /**
+   * Every email sent, in order
+   */
+  public get sent(): readonly CapturedEmail[] {
+    return this.server.sent;
+  }
+
+  /**
+   * The most recently sent email
+   */
+  public get lastSent(): CapturedEmail | undefined {
+    return this.server.sent[this.server.sent.length - 1];
+  }
+
+  /**
+   * Fail the next matching request
+   *
+   * @example
+   * lettermint.failNext({ type: 'rate-limit', retryAfter: 30 }, { path: '/send' });
+   *
+   * @param failure The failure to return
+   * @param matcher The requests to fail, by default the next request
+   * @returns The current instance for chaining
+   */
+  public failNext(failure: ScriptedFailure, matcher?: FailureMatcher): this {
+    this.server.failNext(failure, matcher);
+    return this;
+  }
+
+  /**
+   * Remove all state, recorded sends and pending failures
+   */
+  public reset(): void {
+    this.server.reset();
+  }
+}
+
+/**
+ * Create a transport answering requests from an in-memory API
+ *
+ * @param server The in-memory API
+ * @param baseUrl Base URL of the client, to resolve request paths
+ * @returns The transport
+ */
+export function mockTransport(server: MockApi, baseUrl: string): Transport {
+  return async (url, init) => {
+    const { pathname, searchParams } = new URL(url);
+    const basePath = new URL(baseUrl).pathname.replace(/\/$/, '');
+    const response = server.handle({
+      method: (init.method ?? 'GET').toUpperCase(),
+      path: pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname,
+      query: searchParams,
+      headers: new Headers(init.headers as HeadersInit),
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    });
+
+    if (typeof response.body === 'string') {
+      return new Response(response.body, {
+        status: response.status,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8', ...response.headers },
+      });
+    }
+
+    return Response.json(response.body ?? null, {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+}
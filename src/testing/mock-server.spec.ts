@@ -0,0 +1,151 @@
+import { LettermintClient } from '../client';
+import { Lettermint } from '../lettermint';
+import { AuthenticationError, ConflictError, TimeoutError, ValidationError } from '../utils/errors';
+import { type MockServer, startMockServer } from './mock-server';
+
+const message = { from: 'a@acme.com', to: ['b@example.com'], subject: 'Hi', text: 'Hi' };
+
+describe('startMockServer', () => {
+  let server: MockServer;
+
+  beforeEach(async () => {
+    server = await startMockServer({
+      sendingToken: 'sending-token',
+      apiToken: 'api-token',
+      pageSize: 2,
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should send emails and list them page by page', async () => {
+    const email = Lettermint.email('sending-token', { baseUrl: server.url });
+    const api = Lettermint.api('api-token', { baseUrl: server.url });
+
+    expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/v1$/);
+    await expect(email.ping()).resolves.toBe('pong');
+    await email.sendBatch([
+      { ...message, subject: 'One' },
+      { ...message, subject: 'Two' },
+      { ...message, subject: 'Three' },
+    ]);
+
+    const first = await api.messages.list();
+    const subjects = (await api.messages.listAll().toArray()).map(({ subject }) => subject);
+
+    expect(first).toMatchObject({ per_page: 2, path: '/messages', prev_cursor: null });
+    expect(Array.isArray(first) ? [] : first.next_page_url).toMatch(
+      /^\/messages\?page%5Bcursor%5D=/
+    );
+    expect(subjects).toEqual(['One', 'Two', 'Three']);
+    expect(server.api.sent).toHaveLength(3);
+    await expect(api.domains.list({ 'page[cursor]': 'nope' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should check the token and header of each API', async () => {
+    const sending = (apiToken: string) =>
+      new LettermintClient({ apiToken, baseUrl: server.url, authMode: 'sending' });
+    const management = (apiToken: string) =>
+      new LettermintClient({ apiToken, baseUrl: server.url, authMode: 'api' });
+
+    await expect(sending('sending-token').get('/domains')).rejects.toMatchObject({
+      constructor: AuthenticationError,
+      responseBody: { message: 'The management API expects a team token as Bearer token.' },
+    });
+    await expect(management('api-token').post('/send', message)).rejects.toMatchObject({
+      responseBody: {
+        message: 'The sending API expects a project token in the x-lettermint-token header.',
+      },
+    });
+    await expect(sending('wrong').post('/send', message)).rejects.toThrow(AuthenticationError);
+    await expect(management('wrong').get('/domains')).rejects.toThrow(AuthenticationError);
+    await expect(management('api-token').getRaw('/ping')).resolves.toBe('pong');
+    await expect(management('api-token').get('/domains')).resolves.toMatchObject({ data: [] });
+  });
+
+  it('should reject invalid payloads with field errors', async () => {
+    const email = Lettermint.email('sending-token', { baseUrl: server.url });
+
+    const error = (await email
+      .from('not an address')
+      .to('b@example.com')
+      .subject('Hi')
+      .text('Hi')
+      .send()
+      .catch((reason) => reason)) as ValidationError;
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual({ from: ['The from field must be a valid email address.'] });
+    expect(server.api.sent).toEqual([]);
+  });
+
+  it('should answer repeated idempotency keys from the first response', async () => {
+    const client = new LettermintClient({ apiToken: 'sending-token', baseUrl: server.url });
+    const headers = { 'Idempotency-Key': 'welcome-1' };
+
+    const first = await client.post<{ message_id: string }>('/send', message, { headers });
+    const replay = await client
+      .post<{ message_id: string }>('/send', message, { headers })
+      .withResponse();
+
+    expect(replay.data).toEqual(first);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(server.api.sent).toHaveLength(1);
+    await expect(
+      client.post('/send', { ...message, subject: 'Other' }, { headers })
+    ).rejects.toThrow(ConflictError);
+  });
+
+  it('should manage projects, routes and webhooks', async () => {
+    const api = Lettermint.api('api-token', { baseUrl: server.url });
+
+    const { data: project, api_token } = await api.projects.create({ name: 'Shop' });
+    const routes = await api.projects.listAllRoutes(project.id).toArray();
+
+    expect(api_token).toMatch(/^lm_/);
+    expect(routes.map(({ slug }) => slug)).toEqual(['outgoing', 'broadcast']);
+    expect(project.default_route_id).toBe(routes[0].id);
+
+    const { data: webhook } = await api.webhooks.create({
+      route_id: routes[0].id,
+      name: 'Deliveries',
+      url: 'https://acme.com/hooks',
+      events: ['message.delivered'],
+    });
+
+    expect(webhook.secret).toMatch(/^whsec_/);
+    expect(await api.webhooks.retrieve(webhook.id)).not.toHaveProperty('secret');
+    await expect(api.webhooks.update(webhook.id, { enabled: false })).resolves.toMatchObject({
+      data: { enabled: false },
+    });
+    await expect(api.projects.routes(project.id)).resolves.toMatchObject({
+      data: [{ webhooks_count: 1 }, { webhooks_count: 0 }],
+    });
+    await expect(
+      api.webhooks.create({ route_id: 'unknown', name: '', url: 'ftp://x', events: [] })
+    ).rejects.toMatchObject({
+      responseBody: {
+        errors: {
+          route_id: ['The selected route id is invalid.'],
+          name: ['The name field is required.'],
+          url: ['The url field must be a valid URL.'],
+          events: ['The events field is required.'],
+        },
+      },
+    });
+
+    await api.projects.delete(project.id);
+    expect(server.api.routes.size).toBe(0);
+  });
+
+  it('should keep timed out requests open until the client gives up', async () => {
+    const email = Lettermint.email('sending-token', { baseUrl: server.url, timeout: 50 });
+
+    server.api.failNext({ type: 'timeout' });
+
+    await expect(email.ping()).rejects.toThrow(TimeoutError);
+    await expect(email.ping()).resolves.toBe('pong');
+  });
+});
@@ -0,0 +1,149 @@
+import { type IncomingMessage, type ServerResponse, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MockApi, type MockApiOptions, MockTimeout } from './mock-api';
+
+/**
+ * Options for the mock API server
+ */
+export interface MockServerOptions extends MockApiOptions {
+  /**
+   * Port to listen on (defaults to a random free port)
+   */
+  port?: number;
+
+  /**
+   * Host to listen on (defaults to 127.0.0.1)
+   */
+  host?: string;
+
+  /**
+   * In-memory API to serve, e.g. to share state with a `MockLettermint`
+   */
+  api?: MockApi;
+}
+
+/**
+ * A running mock API server
+ */
+export interface MockServer {
+  /**
+   * Base URL to pass as the `baseUrl` of a client, ending in `/v1`
+   */
+  url: string;
+
+  /**
+   * The in-memory API answering the requests
+   */
+  api: MockApi;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve an in-memory Lettermint API over HTTP
+ *
+ * Unlike `MockLettermint`, requests pass through the real HTTP stack of the
+ * client, including headers, timeouts and retries. A scripted `timeout` keeps
+ * the request open until the client gives up.
+ *
+ * @example
+ * const server = await startMockServer({ apiToken: 'test-token' });
+ * const api = Lettermint.api('test-token', { baseUrl: server.url });
+ *
+ * await api.domains.create({ domain: 'acme.com' });
+ * await server.close();
+ *
+ * @param options Port, host, accepted tokens and page size
+ * @returns The running server
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const api = options.api ?? new MockApi(options);
+  const server = createServer((req, res) => {
+    handle(api, req, res).catch((error) => {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve);
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(':') ? `[${address}]` : address;
+
+  return {
+    url: `http://${host}:${port}/v1`,
+    api,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+async function handle(api: MockApi, req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  if (!url.pathname.startsWith('/v1/')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Not found.' }));
+    return;
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  let body: unknown;
+
+  try {
+    body = raw ? JSON.parse(raw) : undefined;
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'The request body is not valid JSON.' }));
+    return;
+  }
+
+  const headers = new Headers();
+
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+
+  let response: ReturnType<MockApi['handle']>;
+
+  try {
+    response = api.handle({
+      method: req.method ?? 'GET',
+      path: url.pathname.slice('/v1'.length),
+      query: url.searchParams,
+      headers,
+      body,
+    });
+  } catch (error) {
+    if (error instanceof MockTimeout) {
+      // Leave the request open, the client aborts it when its timeout expires
+      return;
+    }
+
+    throw error;
+  }
+
+  if (typeof response.body === 'string') {
+    res.writeHead(response.status, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      ...response.headers,
+    });
+    res.end(response.body);
+    return;
+  }
+
+  res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+  res.end(JSON.stringify(response.body ?? null));
+}
@@ -0,0 +1,313 @@
+import type { EmailEndpoint } from '../endpoints/email';
+import { Lettermint } from '../lettermint';
+import { MemoryOutbox } from '../outbox/outbox';
+import {
+  NotFoundError,
+  PayloadValidationError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../utils/errors';
+import { MockLettermint, lettermintMatchers } from './index';
+
+expect.extend(lettermintMatchers);
+
+const mockFetch = jest.fn();
+
+const sendHello = (email: EmailEndpoint) =>
+  email.from('a@acme.com').to('b@example.com').subject('Hi').text('Hi').send();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+});
+
+describe('MockLettermint', () => {
+  let lettermint: MockLettermint;
+
+  beforeEach(() => {
+    lettermint = new MockLettermint();
+  });
+
+  it('should record sends and store them as messages', async () => {
+    const { message_id } = await lettermint.email
+      .from('Acme <hello@acme.com>')
+      .to('john@example.com')
+      .subject('Welcome')
+      .html('<p>Welcome</p>')
+      .idempotencyKey('welcome-1')
+      .send();
+    await lettermint.email.sendBatch([
+      { from: 'hello@acme.com', to: ['jane@example.com'], subject: 'One', text: 'One' },
+      { from: 'hello@acme.com', to: ['jim@example.com'], subject: 'Two', text: 'Two' },
+    ]);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(lettermint.sent).toHaveLength(3);
+    expect(lettermint.sent[0]).toMatchObject({ id: message_id, idempotencyKey: 'welcome-1' });
+    expect(lettermint.lastSent?.payload.subject).toBe('Two');
+
+    const message = await lettermint.api.messages.retrieve(message_id);
+
+    expect(message).toMatchObject({
+      id: message_id,
+      status: 'queued',
+      from_email: 'hello@acme.com',
+      from_name: 'Acme',
+      to: [{ email: 'john@example.com', name: null }],
+      subject: 'Welcome',
+    });
+    await expect(lettermint.api.messages.html(message_id)).resolves.toBe('<p>Welcome</p>');
+    await expect(lettermint.api.messages.source(message_id)).resolves.toContain(
+      'Subject: Welcome\r\n'
+    );
+    expect(await lettermint.api.messages.list()).toMatchObject({ data: { length: 3 } });
+    expect((await lettermint.api.messages.events(message_id)).data).toEqual([
+      expect.objectContaining({ event: 'queued' }),
+    ]);
+  });
+
+  it('should keep domains, routes and suppressions in memory', async () => {
+    const { api } = lettermint;
+
+    const domain = await api.domains.create({ domain: 'acme.com' });
+    expect((await api.domains.list()).data).toEqual([
+      expect.objectContaining({ id: domain.id, status: 'pending_verification' }),
+    ]);
+    await expect(api.domains.retrieve(domain.id)).resolves.toEqual(domain);
+
+    const { data: route } = await api.projects.createRoute('project-1', {
+      name: 'Marketing Mails',
+      route_type: 'broadcast',
+    });
+    expect(route).toMatchObject({ project_id: 'project-1', slug: 'marketing-mails' });
+    await api.routes.update(route.id, { name: 'Newsletters' });
+    expect((await api.projects.routes('project-1')).data).toEqual([
+      expect.objectContaining({ id: route.id, name: 'Newsletters', webhooks_count: 0 }),
+    ]);
+
+    const stored = await api.suppressions.create({
+      emails: ['a@example.com', 'a@example.com', 'b@example.com'],
+      reason: 'manual',
+      scope: 'team',
+    });
+    expect(stored.data).toEqual({
+      created: ['a@example.com', 'b@example.com'],
+      skipped: ['a@example.com'],
+    });
+    const [suppression] = (await api.suppressions.list()).data;
+    await api.suppressions.delete(suppression.id);
+    expect((await api.suppressions.list()).data).toHaveLength(1);
+
+    await api.routes.delete(route.id);
+    await api.domains.delete(domain.id);
+    await expect(api.domains.retrieve(domain.id)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should emulate the team, domain verification and project members', async () => {
+    const { api } = lettermint;
+
+    const { data: project, api_token } = await api.projects.create({ name: 'Shop' });
+    const domain = await api.domains.create({ domain: 'acme.com' });
+    const [record] = domain.dns_records ?? [];
+
+    await api.domains.verifyDnsRecord(domain.id, record.id);
+    expect((await api.domains.list()).data[0].status).toBe('partially_verified');
+    await api.domains.verifyDnsRecords(domain.id);
+    expect((await api.domains.list()).data[0].status).toBe('verified');
+    await expect(api.domains.verifyDnsRecord(domain.id, 'unknown')).rejects.toThrow(NotFoundError);
+    await expect(
+      api.domains.updateProjects(domain.id, { project_ids: [project.id] })
+    ).resolves.toMatchObject({ data: { projects: [{ id: project.id, name: 'Shop' }] } });
+
+    const [owner] = await api.team.listAllMembers().toArray();
+    await expect(
+      api.projects.updateMembers(project.id, { team_member_ids: ['unknown'] })
+    ).rejects.toMatchObject({
+      errors: { 'team_member_ids.0': ['The selected team_member_ids.0 is invalid.'] },
+    });
+    await api.projects.addMember(project.id, owner.id);
+    expect((await api.projects.list()).data[0]).toMatchObject({
+      domains_count: 1,
+      team_members_count: 1,
+    });
+    await api.projects.removeMember(project.id, owner.id);
+    await expect(api.projects.removeMember(project.id, owner.id)).rejects.toThrow(NotFoundError);
+
+    const { new_token } = await api.projects.rotateToken(project.id);
+    expect(new_token).toMatch(/^lm_/);
+    expect(new_token).not.toBe(api_token);
+
+    await api.team.update({ name: 'Acme' });
+    await expect(api.team.retrieve()).resolves.toMatchObject({
+      name: 'Acme',
+      domains_count: 1,
+      projects_count: 1,
+      members_count: 1,
+    });
+  });
+
+  it('should verify inbound domains and record webhook tests', async () => {
+    const { api } = lettermint;
+
+    const { data: route } = await api.projects.createRoute('project-1', {
+      name: 'Support',
+      route_type: 'inbound',
+    });
+    await expect(api.routes.verifyInboundDomain(route.id)).rejects.toThrow(ValidationError);
+    await api.routes.update(route.id, { inbound_settings: { inbound_domain: 'in.acme.com' } });
+    await expect(api.routes.verifyInboundDomain(route.id)).resolves.toEqual({
+      data: { verified: true, message: 'Inbound domain verified successfully.' },
+    });
+    expect((await api.routes.retrieve(route.id)).inbound_domain_verified_at).toBeDefined();
+
+    const { data: webhook } = await api.webhooks.create({
+      route_id: route.id,
+      name: 'Inbound',
+      url: 'https://acme.com/hooks',
+      events: ['message.inbound'],
+    });
+    const { delivery_id } = await api.webhooks.test(webhook.id);
+
+    expect((await api.webhooks.deliveries(webhook.id)).data).toEqual([
+      expect.objectContaining({ id: delivery_id, event_type: 'webhook.test', status: 'pending' }),
+    ]);
+    await expect(api.webhooks.delivery(webhook.id, delivery_id)).resolves.toMatchObject({
+      id: delivery_id,
+      webhook_id: webhook.id,
+    });
+    await expect(api.webhooks.delivery('other', delivery_id)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should count sent messages in the usage and stats', async () => {
+    const { api } = lettermint;
+    const today = new Date().toISOString().slice(0, 10);
+
+    await sendHello(lettermint.email);
+    await sendHello(lettermint.email);
+
+    const [message] = lettermint.server.messages.values();
+    message.data.status = 'delivered';
+
+    expect((await api.team.usage()).current_period.usage).toBe(2);
+    await expect(api.stats.retrieve({ from: today, to: today })).resolves.toMatchObject({
+      totals: { sent: 2, delivered: 1, transactional: { sent: 2 } },
+      daily: [{ date: today, sent: 2 }],
+    });
+    await expect(api.stats.retrieve({ from: today })).rejects.toMatchObject({
+      errors: { to: ['The to field must be a valid date.'] },
+    });
+  });
+
+  it('should throw scripted failures once', async () => {
+    const send = () => sendHello(lettermint.email);
+
+    lettermint
+      .failNext({ type: 'validation', errors: { to: ['The to field is invalid.'] } })
+      .failNext({ type: 'rate-limit', retryAfter: 30 })
+      .failNext({ type: 'server-error', status: 503 })
+      .failNext({ type: 'timeout' });
+
+    const validation = (await send().catch((error) => error)) as ValidationError;
+    expect(validation).toBeInstanceOf(ValidationError);
+    expect(validation.errors).toEqual({ to: ['The to field is invalid.'] });
+
+    const rateLimit = (await send().catch((error) => error)) as RateLimitError;
+    expect(rateLimit).toBeInstanceOf(RateLimitError);
+    expect(rateLimit.retryAfter).toBe(30_000);
+
+    await expect(send()).rejects.toThrow(ServerError);
+    await expect(send()).rejects.toThrow(TimeoutError);
+    await expect(send()).resolves.toMatchObject({ status: 'queued' });
+    expect(lettermint.sent).toHaveLength(1);
+  });
+
+  it('should only fail matching requests', async () => {
+    lettermint.failNext({ type: 'server-error' }, { path: '/send', times: 2 });
+
+    await expect(lettermint.email.ping()).resolves.toBe('pong');
+    await expect(lettermint.api.domains.list()).resolves.toMatchObject({ data: [] });
+    await expect(sendHello(lettermint.email)).rejects.toThrow(ServerError);
+    await expect(sendHello(lettermint.email)).rejects.toThrow(ServerError);
+    await expect(sendHello(lettermint.email)).resolves.toEqual(
+      expect.objectContaining({ status: 'queued' })
+    );
+  });
+
+  it('should apply client options and serve other clients', async () => {
+    const strict = new MockLettermint({ validate: true });
+
+    await expect(strict.email.from('nope').subject('').send()).rejects.toThrow(
+      PayloadValidationError
+    );
+
+    const email = Lettermint.email('token', {
+      baseUrl: 'https://api.lettermint.test/v1',
+      fetch: strict.transport,
+    });
+    await sendHello(email);
+
+    expect(strict.sent).toHaveLength(1);
+  });
+
+  it('should forget everything on reset', async () => {
+    await lettermint.api.domains.create({ domain: 'acme.com' });
+    await sendHello(lettermint.email);
+    lettermint.failNext({ type: 'timeout' });
+
+    lettermint.reset();
+
+    expect(lettermint.sent).toEqual([]);
+    expect(lettermint.server.domains.size).toBe(0);
+    await expect(lettermint.email.ping()).resolves.toBe('pong');
+  });
+});
+
+describe('lettermintMatchers', () => {
+  it('should match sent emails by their fields', async () => {
+    const lettermint = new MockLettermint();
+
+    await lettermint.email
+      .from('Acme <hello@acme.com>')
+      .to('John <John@Example.com>', 'jane@example.com')
+      .subject('Welcome aboard')
+      .text('Welcome')
+      .tag('onboarding')
+      .metadata({ user: '42' })
+      .send();
+
+    expect(lettermint).toHaveSentEmails(1);
+    expect(lettermint).toHaveSentEmail();
+    expect(lettermint).toHaveSentEmail({ to: 'john@example.com', subject: /welcome/i });
+    expect(lettermint).toHaveSentEmail({
+      from: 'hello@acme.com',
+      to: ['jane@example.com', 'john@example.com'],
+      tag: 'onboarding',
+      metadata: { user: '42' },
+    });
+    expect(lettermint).not.toHaveSentEmail({ to: 'jim@example.com' });
+    expect(lettermint).not.toHaveSentEmail({ subject: 'Welcome' });
+    expect(lettermint).not.toHaveSentEmail({ metadata: { user: '43' } });
+  });
+
+  it('should read captured emails from outboxes and arrays', async () => {
+    const outbox = new MemoryOutbox();
+    const email = Lettermint.email('token', { mode: 'dry-run', outbox });
+
+    await sendHello(email);
+
+    expect(outbox).toHaveSentEmail({ to: 'b@example.com', subject: 'Hi' });
+    expect(outbox.messages).toHaveSentEmails(1);
+    expect([]).not.toHaveSentEmail();
+  });
+
+  it('should describe the sent emails on failure', () => {
+    const lettermint = new MockLettermint();
+
+    expect(() => expect(lettermint).toHaveSentEmail({ subject: 'Hi' })).toThrow(
+      'No emails were sent.'
+    );
+    expect(() => expect(lettermint).toHaveSentEmails(2)).toThrow('received 0');
+  });
+});
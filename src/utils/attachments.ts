@@ -0,0 +1,195 @@
+import type { BlockedFileTypesResponse, SendMailRequest } from '../types';
+import { AttachmentError } from './errors';
+
+export type Attachment = NonNullable<SendMailRequest['attachments']>[number];
+
+/**
+ * Options for attachments created from files, buffers and streams
+ */
+export interface AttachmentOptions {
+  /**
+   * MIME type of the attachment (detected from the filename and contents by default)
+   */
+  contentType?: string;
+
+  /**
+   * Content-ID for inline attachments, referenced as `cid:` in the HTML body
+   */
+  contentId?: string;
+
+  /**
+   * Maximum size of the attachment in bytes (defaults to 25 MB)
+   */
+  maxSize?: number;
+}
+
+export const DEFAULT_MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+const CONTENT_TYPES: Record<string, string> = {
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  csv: 'text/csv',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  eml: 'message/rfc822',
+  gif: 'image/gif',
+  gz: 'application/gzip',
+  heic: 'image/heic',
+  htm: 'text/html',
+  html: 'text/html',
+  ics: 'text/calendar',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  json: 'application/json',
+  md: 'text/markdown',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  odt: 'application/vnd.oasis.opendocument.text',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  rtf: 'application/rtf',
+  svg: 'image/svg+xml',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  txt: 'text/plain',
+  vcf: 'text/vcard',
+  webp: 'image/webp',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xml: 'application/xml',
+  zip: 'application/zip',
+};
+
+/**
+ * Leading bytes of common file formats, for files without a known extension
+ */
+const SIGNATURES: Array<[number[], string]> = [
+  [[0x25, 0x50, 0x44, 0x46], 'application/pdf'],
+  [[0x89, 0x50, 0x4e, 0x47], 'image/png'],
+  [[0xff, 0xd8, 0xff], 'image/jpeg'],
+  [[0x47, 0x49, 0x46, 0x38], 'image/gif'],
+  [[0x50, 0x4b, 0x03, 0x04], 'application/zip'],
+  [[0x1f, 0x8b], 'application/gzip'],
+];
+
+/**
+ * Detect the MIME type of an attachment from its extension, falling back to its leading bytes
+ *
+ * @param filename The attachment filename
+ * @param content The attachment contents
+ * @returns The detected MIME type, or `application/octet-stream`
+ */
+export function detectContentType(filename: string, content?: Uint8Array): string {
+  const byExtension = CONTENT_TYPES[extension(filename)];
+
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const signature = content
+    ? SIGNATURES.find(([bytes]) => bytes.every((byte, index) => content[index] === byte))
+    : undefined;
+
+  return signature?.[1] ?? DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * Create an attachment from raw contents
+ *
+ * @param filename The attachment filename
+ * @param content The raw contents
+ * @param options Attachment options
+ * @returns The base64-encoded attachment
+ * @throws AttachmentError When the contents exceed the size limit
+ */
+export function createAttachment(
+  filename: string,
+  content: Uint8Array,
+  options: AttachmentOptions = {}
+): Attachment {
+  assertSize(filename, content.byteLength, options.maxSize);
+
+  return {
+    filename,
+    content: Buffer.from(content.buffer, content.byteOffset, content.byteLength).toString('base64'),
+    content_type: options.contentType ?? detectContentType(filename, content),
+    ...(options.contentId && { content_id: options.contentId }),
+  };
+}
+
+/**
+ * Read a stream into memory, stopping as soon as it exceeds the size limit
+ *
+ * @param filename The attachment filename, used in errors
+ * @param stream A Node readable stream or any async iterable of chunks
+ * @param maxSize Maximum size in bytes
+ * @returns The stream contents
+ * @throws AttachmentError When the stream exceeds the size limit
+ */
+export async function readStream(
+  filename: string,
+  stream: AsyncIterable<Uint8Array | string>,
+  maxSize?: number
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : Buffer.from(chunk);
+    size += buffer.byteLength;
+    assertSize(filename, size, maxSize);
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Check attachments against the file types the API refuses
+ *
+ * @param attachments The attachments to check
+ * @param blocked Blocked extensions and MIME types from `ApiClient.blockedFileTypes()`
+ * @throws AttachmentError For the first blocked attachment
+ */
+export function assertAllowedFileTypes(
+  attachments: Attachment[],
+  blocked: BlockedFileTypesResponse
+): void {
+  const extensions = new Set(
+    blocked.extensions.map((value) => value.replace(/^\./, '').toLowerCase())
+  );
+  const mimeTypes = new Set(blocked.mime_types.map((value) => value.toLowerCase()));
+
+  for (const attachment of attachments) {
+    const contentType = attachment.content_type?.toLowerCase();
+
+    if (
+      extensions.has(extension(attachment.filename)) ||
+      (contentType && mimeTypes.has(contentType))
+    ) {
+      throw new AttachmentError(
+        `Attachment ${attachment.filename} has a blocked file type`,
+        attachment.filename
+      );
+    }
+  }
+}
+
+function assertSize(filename: string, size: number, maxSize = DEFAULT_MAX_ATTACHMENT_SIZE): void {
+  if (size > maxSize) {
+    throw new AttachmentError(
+      `Attachment ${filename} exceeds the maximum size of ${maxSize} bytes`,
+      filename
+    );
+  }
+}
+
+function extension(filename: string): string {
+  const index = filename.lastIndexOf('.');
+
+  return index === -1 ? '' : filename.slice(index + 1).toLowerCase();
+}
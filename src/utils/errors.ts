@@ -1,34 +1,211 @@
 export class LettermintError extends Error {
+  /**
+   * Number of attempts made before this error was thrown
+   */
+  public attempts = 1;
+
   constructor(message: string) {
     super(message);
     this.name = this.constructor.name;
   }
 }
 
+/**
+ * Response details attached to HTTP errors
+ */
+export interface HttpErrorContext {
+  /**
+   * Request id assigned by the server, useful for support tickets
+   */
+  requestId?: string;
+
+  /**
+   * Response headers
+   */
+  headers?: Headers;
+}
+
 export class HttpRequestError extends LettermintError {
   public readonly statusCode: number;
   public readonly responseBody?: unknown;
+  public readonly requestId?: string;
+  public readonly headers?: Headers;
 
-  constructor(message: string, statusCode: number, responseBody?: unknown) {
+  constructor(
+    message: string,
+    statusCode: number,
+    responseBody?: unknown,
+    context: HttpErrorContext = {}
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.responseBody = responseBody;
+    this.requestId = context.requestId;
+    this.headers = context.headers;
   }
 }
 
 export class TimeoutError extends LettermintError {}
 
+export class PayloadValidationError extends LettermintError {
+  /**
+   * Problems keyed by field path, e.g. `to.0`, or `3.to.0` for batches
+   */
+  public readonly errors: Record<string, string[]>;
+
+  constructor(errors: Record<string, string[]>) {
+    const problems = Object.entries(errors).flatMap(([field, messages]) =>
+      messages.map((message) => `${field}: ${message}`)
+    );
+
+    super(`Invalid email payload: ${problems.join(' ')}`);
+    this.errors = errors;
+  }
+}
+
+export class TemplateError extends LettermintError {}
+
+export class MimeError extends LettermintError {}
+
+export class AttachmentError extends LettermintError {
+  public readonly filename: string;
+
+  constructor(message: string, filename: string) {
+    super(message);
+    this.filename = filename;
+  }
+}
+
+export class WebhookSignatureError extends LettermintError {}
+
+export class WebhookPayloadError extends LettermintError {}
+
+export class UnknownWebhookEventError extends WebhookPayloadError {
+  public readonly event: string;
+
+  /**
+   * The parsed body, for handling events newer than this SDK version
+   */
+  public readonly payload: unknown;
+
+  constructor(event: string, payload: unknown) {
+    super(`Unknown webhook event: ${event}`);
+    this.event = event;
+    this.payload = payload;
+  }
+}
+
 export class ValidationError extends HttpRequestError {
   public readonly errorType: string;
 
-  constructor(message: string, errorType: string, responseBody?: unknown) {
-    super(message, 422, responseBody);
+  /**
+   * Field-level validation messages keyed by field path, e.g. `to.0`
+   */
+  public readonly errors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    errorType: string,
+    responseBody?: unknown,
+    context?: HttpErrorContext
+  ) {
+    super(message, 422, responseBody, context);
     this.errorType = errorType;
+    this.errors = fieldErrors(responseBody);
   }
 }
 
 export class ClientError extends HttpRequestError {
-  constructor(message: string, responseBody?: unknown) {
-    super(message, 400, responseBody);
+  constructor(message: string, responseBody?: unknown, context?: HttpErrorContext) {
+    super(message, 400, responseBody, context);
+  }
+}
+
+export class AuthenticationError extends HttpRequestError {
+  constructor(message: string, responseBody?: unknown, context?: HttpErrorContext) {
+    super(message, 401, responseBody, context);
+  }
+}
+
+export class PermissionError extends HttpRequestError {
+  constructor(message: string, responseBody?: unknown, context?: HttpErrorContext) {
+    super(message, 403, responseBody, context);
+  }
+}
+
+export class NotFoundError extends HttpRequestError {
+  constructor(message: string, responseBody?: unknown, context?: HttpErrorContext) {
+    super(message, 404, responseBody, context);
+  }
+}
+
+export class ConflictError extends HttpRequestError {
+  constructor(message: string, responseBody?: unknown, context?: HttpErrorContext) {
+    super(message, 409, responseBody, context);
+  }
+}
+
+export class ServerError extends HttpRequestError {}
+
+/**
+ * Extract field-level messages from a validation error body
+ */
+function fieldErrors(responseBody: unknown): Record<string, string[]> {
+  const errors = (responseBody as { errors?: unknown } | undefined)?.errors;
+
+  if (typeof errors !== 'object' || errors === null || Array.isArray(errors)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, messages]) => [
+      field,
+      (Array.isArray(messages) ? messages : [messages]).map(String),
+    ])
+  );
+}
+
+/**
+ * Rate limit details reported by the API
+ */
+export interface RateLimitInfo {
+  /**
+   * Maximum number of requests allowed in the current window
+   */
+  limit?: number;
+
+  /**
+   * Number of requests remaining in the current window
+   */
+  remaining?: number;
+
+  /**
+   * Moment the current window resets
+   */
+  reset?: Date;
+
+  /**
+   * Time to wait before retrying, in milliseconds
+   */
+  retryAfter?: number;
+}
+
+export class RateLimitError extends HttpRequestError {
+  public readonly limit?: number;
+  public readonly remaining?: number;
+  public readonly reset?: Date;
+  public readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    info: RateLimitInfo,
+    responseBody?: unknown,
+    context?: HttpErrorContext
+  ) {
+    super(message, 429, responseBody, context);
+    this.limit = info.limit;
+    this.remaining = info.remaining;
+    this.reset = info.reset;
+    this.retryAfter = info.retryAfter;
   }
 }
@@ -0,0 +1,227 @@
+import type { RequestContext } from '../middleware';
+import { HttpRequestError } from './errors';
+
+/**
+ * Logger accepted by the client, compatible with `console`, winston, pino and bunyan
+ *
+ * Methods are called with the message first, or with the context first in the
+ * `pino` log style.
+ */
+export interface Logger {
+  debug(first: string | LogContext, second?: LogContext | string): void;
+  info(first: string | LogContext, second?: LogContext | string): void;
+  warn(first: string | LogContext, second?: LogContext | string): void;
+  error(first: string | LogContext, second?: LogContext | string): void;
+}
+
+type LogContext = Record<string, unknown>;
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+/**
+ * Argument order of logger calls: `console` passes `(message, context)` as
+ * `console` and winston expect, `pino` passes `(context, message)` as pino and
+ * bunyan expect
+ */
+export type LogStyle = 'console' | 'pino';
+
+/**
+ * Redaction options for logged payloads
+ *
+ * Authentication headers and attachment contents are always redacted.
+ */
+export interface RedactConfig {
+  /**
+   * Mask the local part of recipient addresses (to, cc, bcc and reply_to)
+   */
+  recipients?: boolean;
+
+  /**
+   * Replace html and text bodies with their length
+   */
+  bodies?: boolean;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, off: 4 };
+
+const SECRET_HEADERS = ['authorization', 'x-lettermint-token'];
+
+const RECIPIENT_FIELDS = ['to', 'cc', 'bcc', 'reply_to'];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Redact authentication headers
+ *
+ * @param headers The request headers
+ * @returns A copy of the headers with secrets replaced
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [
+      key,
+      SECRET_HEADERS.includes(key.toLowerCase()) ? REDACTED : value,
+    ])
+  );
+}
+
+/**
+ * Redact sensitive parts of a request payload
+ *
+ * Handles single email payloads as well as batch arrays.
+ *
+ * @param body The request payload
+ * @param options Redaction options
+ * @returns A redacted copy of the payload
+ */
+export function redactBody(body: unknown, options: RedactConfig = {}): unknown {
+  if (Array.isArray(body)) {
+    return body.map((item) => redactBody(item, options));
+  }
+
+  if (typeof body !== 'object' || body === null) {
+    return body;
+  }
+
+  const redacted: Record<string, unknown> = { ...(body as Record<string, unknown>) };
+
+  if (Array.isArray(redacted.attachments)) {
+    redacted.attachments = redacted.attachments.map((attachment) => ({
+      ...attachment,
+      content: `${REDACTED} ${String(attachment?.content ?? '').length} chars`,
+    }));
+  }
+
+  if (options.recipients) {
+    for (const field of RECIPIENT_FIELDS) {
+      if (Array.isArray(redacted[field])) {
+        redacted[field] = (redacted[field] as unknown[]).map((address) =>
+          maskAddress(String(address))
+        );
+      }
+    }
+  }
+
+  if (options.bodies) {
+    for (const field of ['html', 'text']) {
+      if (typeof redacted[field] === 'string') {
+        redacted[field] = `${REDACTED} ${(redacted[field] as string).length} chars`;
+      }
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Mask the local part of an address, keeping the domain for debugging
+ */
+function maskAddress(address: string): string {
+  return address.replace(/[^\s<>"@]+@/g, '***@').replace(/^[^<]*</, '<');
+}
+
+/**
+ * Writes client activity to a user-supplied logger at the configured level
+ */
+export class ClientLogger {
+  private readonly threshold: number;
+
+  /**
+   * Create a new client logger
+   *
+   * @param logger The logger to write to; nothing is logged without one
+   * @param level Minimum level to log (defaults to info)
+   * @param redact Redaction options for payloads
+   * @param style Argument order of logger calls (defaults to console)
+   */
+  constructor(
+    private readonly logger?: Logger,
+    level: LogLevel = 'info',
+    private readonly redact: RedactConfig = {},
+    private readonly style: LogStyle = 'console'
+  ) {
+    this.threshold = logger ? LEVELS[level] : LEVELS.off;
+  }
+
+  public request(context: RequestContext): void {
+    if (!this.enabled('debug')) {
+      return;
+    }
+
+    this.write('debug', 'Lettermint request', {
+      method: context.method,
+      url: context.url,
+      attempt: context.attempt,
+      headers: redactHeaders(context.headers),
+      ...(context.body !== undefined && { body: redactBody(context.body, this.redact) }),
+    });
+  }
+
+  public response(context: RequestContext, response: Response, durationMs: number): void {
+    const level = response.ok ? 'info' : 'warn';
+
+    if (!this.enabled(level)) {
+      return;
+    }
+
+    this.write(level, 'Lettermint response', {
+      method: context.method,
+      path: context.path,
+      status: response.status,
+      attempt: context.attempt,
+      durationMs: Math.round(durationMs),
+      requestId: response.headers.get('X-Request-Id') ?? undefined,
+    });
+  }
+
+  public retry(context: RequestContext, reason: unknown, delay: number): void {
+    if (!this.enabled('warn')) {
+      return;
+    }
+
+    this.write('warn', 'Retrying Lettermint request', {
+      method: context.method,
+      path: context.path,
+      attempt: context.attempt,
+      delayMs: delay,
+      reason: describe(reason),
+    });
+  }
+
+  public failure(context: RequestContext, error: unknown): void {
+    if (!this.enabled('error')) {
+      return;
+    }
+
+    this.write('error', 'Lettermint request failed', {
+      method: context.method,
+      path: context.path,
+      attempt: context.attempt,
+      error: describe(error),
+      ...(error instanceof HttpRequestError && {
+        status: error.statusCode,
+        requestId: error.requestId,
+      }),
+    });
+  }
+
+  private write(level: Exclude<LogLevel, 'off'>, message: string, context: LogContext): void {
+    if (this.style === 'pino') {
+      this.logger?.[level](context, message);
+    } else {
+      this.logger?.[level](message, context);
+    }
+  }
+
+  private enabled(level: Exclude<LogLevel, 'off'>): boolean {
+    return LEVELS[level] >= this.threshold;
+  }
+}
+
+function describe(reason: unknown): string {
+  if (reason instanceof Error) {
+    return `${reason.name}: ${reason.message}`;
+  }
+
+  return String(reason);
+}
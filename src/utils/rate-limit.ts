@@ -0,0 +1,141 @@
+import type { RateLimitInfo } from './errors';
+import { parseRetryAfter } from './retry';
+
+/**
+ * Parse the rate limit headers of a response
+ *
+ * @param headers The response headers
+ * @param now The current time in milliseconds
+ * @returns The parsed rate limit details
+ */
+export function parseRateLimitHeaders(headers: Headers, now = Date.now()): RateLimitInfo {
+  const limit = parseInteger(headers.get('X-RateLimit-Limit'));
+  const remaining = parseInteger(headers.get('X-RateLimit-Remaining'));
+  const resetValue = parseInteger(headers.get('X-RateLimit-Reset'));
+  let retryAfter = parseRetryAfter(headers.get('Retry-After'), now);
+
+  let reset: Date | undefined;
+
+  if (resetValue !== undefined) {
+    // Large values are epoch seconds, small values are seconds until the reset
+    reset = new Date(resetValue > 1e9 ? resetValue * 1000 : now + resetValue * 1000);
+  }
+
+  if (retryAfter === undefined && reset) {
+    retryAfter = Math.max(0, reset.getTime() - now);
+  }
+
+  return { limit, remaining, reset, retryAfter };
+}
+
+function parseInteger(value: string | null): number | undefined {
+  if (value === null || !/^\d+$/.test(value.trim())) {
+    return undefined;
+  }
+
+  return Number(value);
+}
+
+/**
+ * Token bucket that queues callers once the bucket is empty
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private resumeAt = 0;
+  private readonly queue: Array<() => void> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Create a new token bucket
+   *
+   * @param capacity Maximum number of tokens, i.e. the allowed burst
+   * @param refillPerSecond Number of tokens added per second
+   * @throws {RangeError} When the refill rate is not positive or the capacity is below 1
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number
+  ) {
+    if (!(refillPerSecond > 0)) {
+      throw new RangeError(
+        `The rate limit must be above 0 requests per second, got ${refillPerSecond}`
+      );
+    }
+
+    if (!(capacity >= 1)) {
+      throw new RangeError(`The rate limit burst must be at least 1, got ${capacity}`);
+    }
+
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   *
+   * @param signal Optional signal to stop waiting, rejecting with its reason
+   */
+  public acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const take = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(take), 1);
+
+        if (this.queue.length === 0) {
+          clearTimeout(this.timer);
+          this.timer = undefined;
+        }
+
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(take);
+      this.drain();
+    });
+  }
+
+  /**
+   * Hold back all queued callers for the given duration
+   *
+   * @param ms The pause in milliseconds
+   */
+  public pause(ms: number): void {
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + ms);
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond
+    );
+    this.lastRefill = now;
+
+    while (this.queue.length > 0 && this.tokens >= 1 && now >= this.resumeAt) {
+      this.tokens -= 1;
+      this.queue.shift()?.();
+    }
+
+    if (this.queue.length > 0) {
+      const wait = Math.max(this.resumeAt - now, ((1 - this.tokens) / this.refillPerSecond) * 1000);
+
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, Math.ceil(wait));
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { createRequire } from 'node:module';
+
+// `require` does not exist in the ESM build, where the bundler shims `__filename` instead
+const load = createRequire(__filename);
+
+/**
+ * Load an optional peer dependency when it is installed
+ *
+ * @param name The package to load
+ * @returns The module, or undefined when the package is not installed
+ * @throws When the package is installed but fails to load, e.g. because of its own dependencies
+ */
+export function requireOptional<T>(name: string): T | undefined {
+  try {
+    return load(name);
+  } catch (error) {
+    if (isMissing(error, name)) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+function isMissing(error: unknown, name: string): boolean {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+
+  if (
+    (code !== 'MODULE_NOT_FOUND' && code !== 'ERR_MODULE_NOT_FOUND') ||
+    typeof message !== 'string'
+  ) {
+    return false;
+  }
+
+  const segments = name.split('/');
+  const packageName = segments.slice(0, name.startsWith('@') ? 2 : 1).join('/');
+
+  // Only the requested package counts, not a missing dependency of it
+  return message.includes(`'${name}'`) || message.includes(`'${packageName}'`);
+}
@@ -0,0 +1,123 @@
+/**
+ * Resolved retry policy used by the client
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: boolean;
+  retryableStatusCodes: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Messages of the TypeError that fetch throws when the network fails, in Node and browsers
+ */
+const NETWORK_ERROR_MESSAGES = [
+  'fetch failed',
+  'Failed to fetch',
+  'Load failed',
+  'NetworkError when attempting to fetch resource.',
+];
+
+/**
+ * Determine whether fetch failed because of the network, e.g. a socket reset
+ *
+ * Other TypeErrors, such as a payload that cannot be serialized, are programming
+ * errors that a retry cannot fix.
+ *
+ * @param error The error thrown by fetch
+ * @returns Whether the error is a network failure
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof TypeError)) {
+    return false;
+  }
+
+  const { cause } = error as { cause?: unknown };
+
+  return (
+    NETWORK_ERROR_MESSAGES.includes(error.message) ||
+    (typeof cause === 'object' &&
+      cause !== null &&
+      typeof (cause as { code?: unknown }).code === 'string')
+  );
+}
+
+/**
+ * Parse a Retry-After header value into a delay in milliseconds
+ *
+ * Supports both delta-seconds and HTTP-date values.
+ *
+ * @param value The raw header value
+ * @param now The current time in milliseconds
+ * @returns The delay in milliseconds, or undefined when the value cannot be parsed
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the exponential backoff delay for the given attempt
+ *
+ * @param policy The retry policy
+ * @param attempt The attempt that just failed, starting at 1
+ * @returns The delay in milliseconds
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Wait for the given duration, rejecting early when the signal aborts
+ *
+ * @param ms The delay in milliseconds
+ * @param signal Optional signal to cancel the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,192 @@
+import { LettermintClient } from './client';
+import { Lettermint } from './lettermint';
+import { PayloadValidationError } from './utils/errors';
+import { isValidAddress, validateBatchPayload, validateEmailPayload } from './validation';
+
+const mockFetch = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = mockFetch;
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({ message_id: 'msg_123', status: 'queued' }),
+  } as Response);
+});
+
+describe('isValidAddress', () => {
+  it.each([
+    'john@example.com',
+    'John Doe <john@example.com>',
+    '"Doe, John" <john.doe+tag@mail.example.co.uk>',
+    '<john@example.com>',
+  ])('accepts %s', (address) => {
+    expect(isValidAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '',
+    'john',
+    'john@',
+    '@example.com',
+    'john@example',
+    'John <john@example.com',
+    'a b@c.com',
+  ])('rejects %s', (address) => {
+    expect(isValidAddress(address)).toBe(false);
+  });
+});
+
+describe('validateEmailPayload', () => {
+  const valid = {
+    from: 'Sender <sender@example.com>',
+    to: ['recipient@example.com'],
+    subject: 'Hello',
+    text: 'Hi',
+  };
+
+  it('should accept a valid payload', () => {
+    expect(validateEmailPayload(valid)).toEqual({});
+  });
+
+  it('should report every problem with its field path', () => {
+    expect(
+      validateEmailPayload({
+        from: '',
+        to: ['ok@example.com', 'not-an-email'],
+        cc: 'cc@example.com',
+        subject: ' ',
+        html: null,
+        headers: {
+          'X-Custom': 'ok',
+          Subject: 'Override',
+          'Bad Header': 'x',
+          'X-Inject': 'a\r\nBcc: x',
+        },
+        metadata: { user: 'usr_1', count: 3 },
+      })
+    ).toEqual({
+      from: ['The from field is required.'],
+      'to.1': ['This must be a valid email address.'],
+      cc: ['The cc field must be a list of addresses.'],
+      subject: ['The subject field is required.'],
+      html: ['Either an html or a text body is required.'],
+      'headers.Subject': ['The Subject header is set by Lettermint and cannot be overridden.'],
+      'headers.Bad Header': ['The header name contains invalid characters.'],
+      'headers.X-Inject': ['The header value may not contain line breaks.'],
+      'metadata.count': ['Metadata values must be strings.'],
+    });
+  });
+
+  it('should require recipients and limit their number', () => {
+    expect(validateEmailPayload({ ...valid, to: [] })).toEqual({
+      to: ['At least one recipient is required.'],
+    });
+
+    const many = Array.from({ length: 30 }, (_, index) => `user${index}@example.com`);
+
+    expect(validateEmailPayload({ ...valid, to: many, bcc: many })).toEqual({
+      to: ['An email may have at most 50 recipients.'],
+    });
+  });
+});
+
+describe('validateBatchPayload', () => {
+  it('should prefix problems with the index of the email', () => {
+    expect(
+      validateBatchPayload([
+        { from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', text: 'Hi' },
+        { from: 'a@example.com', to: ['invalid'], subject: 'Hi', text: 'Hi' },
+        'nope',
+      ])
+    ).toEqual({
+      '1.to.0': ['This must be a valid email address.'],
+      '2': ['The email must be an object.'],
+    });
+  });
+
+  it('should reject empty batches', () => {
+    expect(validateBatchPayload([])).toEqual({
+      batch: ['The batch must contain at least one email.'],
+    });
+  });
+});
+
+describe('validate option', () => {
+  it('should reject invalid sends before making a request', async () => {
+    const email = Lettermint.email('sending-token', { validate: true });
+
+    const error = (await email
+      .from('sender@example.com')
+      .to('not-an-email')
+      .subject('Hello')
+      .send()
+      .catch((caught) => caught)) as PayloadValidationError;
+
+    expect(error).toBeInstanceOf(PayloadValidationError);
+    expect(error.errors).toEqual({
+      'to.0': ['This must be a valid email address.'],
+      html: ['Either an html or a text body is required.'],
+    });
+    expect(error.message).toBe(
+      'Invalid email payload: to.0: This must be a valid email address. html: Either an html or a text body is required.'
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should validate batches and let valid payloads through', async () => {
+    const email = Lettermint.email('sending-token', { validate: true });
+    const message = { from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', text: 'Hi' };
+
+    await expect(email.sendBatch([message, { ...message, from: '' }])).rejects.toHaveProperty(
+      'errors',
+      { '1.from': ['The from field is required.'] }
+    );
+    await email.sendBatch([message]);
+    await email.compose().from('a@example.com').to('b@example.com').subject('Hi').text('Hi').send();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate the payload after user middleware changed it', async () => {
+    const email = Lettermint.email('sending-token', {
+      validate: true,
+      middleware: [
+        {
+          onRequest: (context) => {
+            context.body = { ...(context.body as object), from: 'a@example.com' };
+          },
+        },
+      ],
+    });
+
+    await email.to('b@example.com').subject('Hi').text('Hi').send();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate after middleware registered with use()', async () => {
+    const client = new LettermintClient({ apiToken: 'sending-token', validate: true });
+    client.use({
+      onRequest: (context) => {
+        context.body = { ...(context.body as object), to: ['not-an-email'] };
+      },
+    });
+
+    await expect(
+      client.post('/send', {
+        from: 'a@example.com',
+        to: ['b@example.com'],
+        subject: 'Hi',
+        text: 'Hi',
+      })
+    ).rejects.toHaveProperty('errors', { 'to.0': ['This must be a valid email address.'] });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should not validate without the option', async () => {
+    await Lettermint.email('sending-token').compose().send();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,230 @@
+import type { Middleware } from './middleware';
+import { PayloadValidationError } from './utils/errors';
+
+/**
+ * Maximum number of to, cc and bcc recipients of a single email
+ */
+export const MAX_RECIPIENTS = 50;
+
+/**
+ * Maximum number of emails in a batch
+ */
+export const MAX_BATCH_SIZE = 500;
+
+/**
+ * Headers the API sets itself and which cannot be overridden
+ */
+export const RESERVED_HEADERS: ReadonlySet<string> = new Set([
+  'bcc',
+  'cc',
+  'content-transfer-encoding',
+  'content-type',
+  'date',
+  'dkim-signature',
+  'from',
+  'message-id',
+  'mime-version',
+  'received',
+  'reply-to',
+  'return-path',
+  'sender',
+  'subject',
+  'to',
+]);
+
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const ADDR_SPEC =
+  /^(?:[^\s@"<>()[\]\\,;:]+|"(?:[^"\\\r\n]|\\.)+")@(?:[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?\.)+[A-Za-z0-9-]{2,}$/;
+
+const NAME_ADDR = /^(?:"(?:[^"\\\r\n]|\\.)*"|[^<>"\r\n]*)\s*<([^<>\s]+)>$/;
+
+type Errors = Record<string, string[]>;
+
+/**
+ * Check whether a string is an RFC 5322 address, e.g. `john@example.com` or `John <john@example.com>`
+ *
+ * @param address The address to check
+ * @returns Whether the address is valid
+ */
+export function isValidAddress(address: string): boolean {
+  const trimmed = address.trim();
+  const match = NAME_ADDR.exec(trimmed);
+
+  return ADDR_SPEC.test(match ? match[1] : trimmed);
+}
+
+/**
+ * Validate an email payload locally
+ *
+ * @param payload The payload of a single email
+ * @returns Problems keyed by field path, e.g. `to.0`; empty when the payload is valid
+ */
+export function validateEmailPayload(payload: unknown): Errors {
+  const errors: Errors = {};
+  validateEmail(payload, '', errors);
+
+  return errors;
+}
+
+/**
+ * Validate a batch payload locally
+ *
+ * @param payload The emails of a batch
+ * @returns Problems keyed by field path, e.g. `3.to.0`; empty when the payload is valid
+ */
+export function validateBatchPayload(payload: unknown): Errors {
+  const errors: Errors = {};
+
+  if (!Array.isArray(payload) || payload.length === 0) {
+    add(errors, 'batch', 'The batch must contain at least one email.');
+  } else if (payload.length > MAX_BATCH_SIZE) {
+    add(errors, 'batch', `The batch may contain at most ${MAX_BATCH_SIZE} emails.`);
+  } else {
+    payload.forEach((email, index) => validateEmail(email, `${index}.`, errors));
+  }
+
+  return errors;
+}
+
+/**
+ * Middleware validating send and batch payloads before they leave the process
+ *
+ * Enabled with the `validate` client option; all problems are reported at once
+ * in a `PayloadValidationError`.
+ *
+ * @returns The validation middleware
+ */
+export function payloadValidation(): Middleware {
+  return {
+    onRequest(context) {
+      if (context.method !== 'POST') {
+        return;
+      }
+
+      const errors =
+        context.path === '/send'
+          ? validateEmailPayload(context.body)
+          : context.path === '/send/batch'
+            ? validateBatchPayload(context.body)
+            : {};
+
+      if (Object.keys(errors).length > 0) {
+        throw new PayloadValidationError(errors);
+      }
+    },
+  };
+}
+
+function validateEmail(email: unknown, prefix: string, errors: Errors): void {
+  if (typeof email !== 'object' || email === null || Array.isArray(email)) {
+    add(errors, prefix ? prefix.slice(0, -1) : 'payload', 'The email must be an object.');
+    return;
+  }
+
+  const payload = email as Record<string, unknown>;
+
+  if (typeof payload.from !== 'string' || payload.from.trim() === '') {
+    add(errors, `${prefix}from`, 'The from field is required.');
+  } else if (!isValidAddress(payload.from)) {
+    add(errors, `${prefix}from`, 'The from field must be a valid email address.');
+  }
+
+  if (!Array.isArray(payload.to) || payload.to.length === 0) {
+    add(errors, `${prefix}to`, 'At least one recipient is required.');
+  }
+
+  let recipients = 0;
+
+  for (const field of ['to', 'cc', 'bcc', 'reply_to']) {
+    const addresses = payload[field];
+
+    if (addresses === undefined || addresses === null) {
+      continue;
+    }
+
+    if (!Array.isArray(addresses)) {
+      add(errors, `${prefix}${field}`, `The ${field} field must be a list of addresses.`);
+      continue;
+    }
+
+    addresses.forEach((address, index) => {
+      if (typeof address !== 'string' || !isValidAddress(address)) {
+        add(errors, `${prefix}${field}.${index}`, 'This must be a valid email address.');
+      }
+    });
+
+    if (field !== 'reply_to') {
+      recipients += addresses.length;
+    }
+  }
+
+  if (recipients > MAX_RECIPIENTS) {
+    add(errors, `${prefix}to`, `An email may have at most ${MAX_RECIPIENTS} recipients.`);
+  }
+
+  if (typeof payload.subject !== 'string' || payload.subject.trim() === '') {
+    add(errors, `${prefix}subject`, 'The subject field is required.');
+  }
+
+  if (!isFilled(payload.html) && !isFilled(payload.text)) {
+    add(errors, `${prefix}html`, 'Either an html or a text body is required.');
+  }
+
+  validateHeaders(payload.headers, `${prefix}headers`, errors);
+  validateMetadata(payload.metadata, `${prefix}metadata`, errors);
+}
+
+function validateHeaders(headers: unknown, path: string, errors: Errors): void {
+  if (headers === undefined || headers === null) {
+    return;
+  }
+
+  if (typeof headers !== 'object' || Array.isArray(headers)) {
+    add(errors, path, 'The headers field must be an object.');
+    return;
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HEADER_NAME.test(name)) {
+      add(errors, `${path}.${name}`, 'The header name contains invalid characters.');
+    } else if (RESERVED_HEADERS.has(name.toLowerCase())) {
+      add(
+        errors,
+        `${path}.${name}`,
+        `The ${name} header is set by Lettermint and cannot be overridden.`
+      );
+    }
+
+    if (typeof value !== 'string') {
+      add(errors, `${path}.${name}`, 'The header value must be a string.');
+    } else if (/[\r\n]/.test(value)) {
+      add(errors, `${path}.${name}`, 'The header value may not contain line breaks.');
+    }
+  }
+}
+
+function validateMetadata(metadata: unknown, path: string, errors: Errors): void {
+  if (metadata === undefined || metadata === null) {
+    return;
+  }
+
+  if (typeof metadata !== 'object' || Array.isArray(metadata)) {
+    add(errors, path, 'The metadata field must be an object.');
+    return;
+  }
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (typeof value !== 'string') {
+      add(errors, `${path}.${key}`, 'Metadata values must be strings.');
+    }
+  }
+}
+
+function isFilled(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function add(errors: Errors, path: string, message: string): void {
+  errors[path] = [...(errors[path] ?? []), message];
+}
@@ -0,0 +1,273 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  expressWebhookHandler,
+  fastifyWebhookHandler,
+  fetchWebhookHandler,
+  honoWebhookHandler,
+  nodeWebhookHandler,
+} from './adapters';
+import { WebhookRouter } from './events';
+import { Webhook } from './webhook';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({
+  id: 'evt_123',
+  event: 'webhook.test',
+  timestamp: '2026-01-01T12:00:00Z',
+  data: { webhook_id: 'wh_123', message: 'Test' },
+});
+
+const signedHeaders = (payload = body) => ({
+  'Content-Type': 'application/json',
+  'X-Lettermint-Signature': Webhook.sign(payload, secret),
+});
+
+const listen = async (
+  listener: (req: IncomingMessage, res: ServerResponse) => void
+): Promise<{ url: string; close: () => Promise<void> }> => {
+  const server: Server = createServer(listener);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/webhooks`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe('webhook adapters', () => {
+  describe('nodeWebhookHandler', () => {
+    it('should verify the raw body and dispatch to the router', async () => {
+      const handler = jest.fn();
+      const router = new WebhookRouter().on('webhook.test', handler);
+      const server = await listen(nodeWebhookHandler({ secret, handler: router }));
+
+      try {
+        const response = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(),
+          body,
+        });
+
+        expect(response.status).toBe(200);
+        await expect(response.json()).resolves.toEqual({ received: true });
+        expect(handler).toHaveBeenCalledWith(JSON.parse(body));
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should respond with 401 for invalid signatures and 400 for malformed payloads', async () => {
+      const handler = jest.fn();
+      const server = await listen(nodeWebhookHandler({ secret, handler }));
+      const malformed = JSON.stringify({ event: 'webhook.test' });
+
+      try {
+        const tampered = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(),
+          body: body.replace('wh_123', 'wh_456'),
+        });
+        const invalid = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(malformed),
+          body: malformed,
+        });
+
+        expect(tampered.status).toBe(401);
+        await expect(tampered.json()).resolves.toEqual({
+          error: 'Webhook signature does not match',
+        });
+        expect(invalid.status).toBe(400);
+        await expect(invalid.json()).resolves.toEqual({
+          error: 'Webhook body is missing the event id or timestamp',
+        });
+        expect(handler).not.toHaveBeenCalled();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should acknowledge verified events unknown to this SDK version', async () => {
+      const handler = jest.fn();
+      const unknown = body.replace('webhook.test', 'webhook.unknown');
+      const acknowledging = await listen(nodeWebhookHandler({ secret, handler }));
+      const rejecting = await listen(
+        nodeWebhookHandler({ secret, handler, rejectUnknownEvents: true })
+      );
+      const deliver = (url: string) =>
+        fetch(url, { method: 'POST', headers: signedHeaders(unknown), body: unknown });
+
+      try {
+        const acknowledged = await deliver(acknowledging.url);
+        const rejected = await deliver(rejecting.url);
+
+        expect(acknowledged.status).toBe(200);
+        await expect(acknowledged.json()).resolves.toEqual({ received: true });
+        expect(rejected.status).toBe(400);
+        await expect(rejected.json()).resolves.toEqual({
+          error: 'Unknown webhook event: webhook.unknown',
+        });
+        expect(handler).not.toHaveBeenCalled();
+      } finally {
+        await acknowledging.close();
+        await rejecting.close();
+      }
+    });
+
+    it('should answer handler errors with a 500', async () => {
+      const server = await listen(
+        nodeWebhookHandler({
+          secret,
+          handler: () => {
+            throw new Error('Handler failed');
+          },
+        })
+      );
+
+      try {
+        const response = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(),
+          body,
+        });
+
+        expect(response.status).toBe(500);
+        await expect(response.json()).resolves.toEqual({ error: 'Webhook handler failed' });
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('expressWebhookHandler', () => {
+    it('should use a raw body buffered by express.raw()', async () => {
+      const handler = jest.fn();
+      const middleware = expressWebhookHandler({ secret, handler });
+      const server = await listen(async (req, res) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk);
+        }
+        await middleware(Object.assign(req, { body: Buffer.concat(chunks) }), res, jest.fn());
+      });
+
+      try {
+        const response = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(),
+          body,
+        });
+
+        expect(response.status).toBe(200);
+        expect(handler).toHaveBeenCalledTimes(1);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should refuse bodies already parsed by a JSON body parser', async () => {
+      const middleware = expressWebhookHandler({ secret, handler: jest.fn() });
+      const server = await listen(async (req, res) => {
+        for await (const _ of req) {
+          // consume the stream like express.json()
+        }
+        await middleware(Object.assign(req, { body: JSON.parse(body) }), res, jest.fn());
+      });
+
+      try {
+        const response = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(),
+          body,
+        });
+
+        expect(response.status).toBe(500);
+        await expect(response.json()).resolves.toEqual({
+          error: expect.stringContaining('Webhook body was already parsed'),
+        });
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should pass handler errors to next', async () => {
+      const failure = new Error('Handler failed');
+      const next = jest.fn();
+      const middleware = expressWebhookHandler({
+        secret,
+        handler: () => {
+          throw failure;
+        },
+      });
+      const server = await listen(async (req, res) => {
+        await middleware(req, res, next);
+        res.statusCode = 500;
+        res.end();
+      });
+
+      try {
+        const response = await fetch(server.url, {
+          method: 'POST',
+          headers: signedHeaders(),
+          body,
+        });
+
+        expect(response.status).toBe(500);
+        expect(next).toHaveBeenCalledWith(failure);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('fastifyWebhookHandler', () => {
+    it('should reply with the status and body', async () => {
+      const handler = jest.fn();
+      const send = jest.fn();
+      const reply = { code: jest.fn(() => ({ send })) };
+      const request = {
+        raw: { headers: signedHeaders(), readableEnded: true } as unknown as IncomingMessage,
+        body: Buffer.from(body),
+      };
+
+      await fastifyWebhookHandler({ secret, handler })(request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(200);
+      expect(send).toHaveBeenCalledWith({ received: true });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fetch-based handlers', () => {
+    it('should handle Web requests', async () => {
+      const handler = jest.fn();
+      const response = await fetchWebhookHandler({ secret, handler })(
+        new Request('https://example.com/webhooks', {
+          method: 'POST',
+          headers: signedHeaders(),
+          body,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({ received: true });
+      expect(handler).toHaveBeenCalledWith(JSON.parse(body));
+    });
+
+    it('should handle Hono contexts', async () => {
+      const response = await honoWebhookHandler({ secret, handler: jest.fn() })({
+        req: {
+          raw: new Request('https://example.com/webhooks', {
+            method: 'POST',
+            headers: { 'X-Lettermint-Signature': 't=1,v1=abc' },
+            body,
+          }),
+        },
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
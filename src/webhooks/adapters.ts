@@ -0,0 +1,289 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  UnknownWebhookEventError,
+  WebhookPayloadError,
+  WebhookSignatureError,
+} from '../utils/errors';
+import { type WebhookHandler, WebhookRouter } from './events';
+import { Webhook, type WebhookHeaders, type WebhookVerifyOptions } from './webhook';
+
+/**
+ * Options for the webhook adapters
+ */
+export interface WebhookAdapterOptions extends WebhookVerifyOptions {
+  /**
+   * The webhook secret from `WebhookData.secret`
+   */
+  secret: string;
+
+  /**
+   * Router or handler receiving verified payloads
+   */
+  handler: WebhookRouter | WebhookHandler;
+
+  /**
+   * Answer verified events unknown to this SDK version with a 400 instead of
+   * acknowledging them (defaults to false)
+   *
+   * Lettermint retries rejected deliveries, so only enable this when new event
+   * types must not go unnoticed.
+   */
+  rejectUnknownEvents?: boolean;
+}
+
+/**
+ * Outcome of handling a webhook request, to be sent back as the response
+ */
+export interface WebhookResult {
+  status: number;
+  body: { received: true } | { error: string };
+}
+
+/**
+ * Fetch-style webhook handler, as used by Hono and Next.js route handlers
+ */
+export type FetchWebhookHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Node `http` webhook handler
+ */
+export type NodeWebhookHandler = (
+  req: IncomingMessage & { body?: unknown; rawBody?: unknown },
+  res: ServerResponse
+) => Promise<void>;
+
+const PARSED_BODY_MESSAGE =
+  'Webhook body was already parsed; register the handler before JSON body parsers or keep the raw body';
+
+const HANDLER_FAILED_MESSAGE = 'Webhook handler failed';
+
+/**
+ * Verify a webhook request, dispatch it and determine the response
+ *
+ * Invalid signatures result in a 401, malformed payloads in a 400 and successfully
+ * handled events in a 200. Verified events this SDK version does not know are
+ * acknowledged with a 200 without running the handler, unless `rejectUnknownEvents`
+ * is set. Errors thrown by handlers are rethrown so the framework answers with a
+ * 5xx and Lettermint retries the delivery.
+ *
+ * @param rawBody The exact request body as received
+ * @param headers The request headers
+ * @param options Adapter options
+ * @returns The status and body to respond with
+ */
+export async function handleWebhook(
+  rawBody: string | Uint8Array,
+  headers: WebhookHeaders,
+  options: WebhookAdapterOptions
+): Promise<WebhookResult> {
+  const { secret, handler, rejectUnknownEvents, ...verifyOptions } = options;
+  let payload: ReturnType<typeof Webhook.verify>;
+
+  try {
+    payload = Webhook.verify(rawBody, headers, secret, verifyOptions);
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return { status: 401, body: { error: error.message } };
+    }
+
+    // Unknown events are only detected once the signature has been verified
+    if (error instanceof UnknownWebhookEventError && !rejectUnknownEvents) {
+      return { status: 200, body: { received: true } };
+    }
+
+    if (error instanceof WebhookPayloadError) {
+      return { status: 400, body: { error: error.message } };
+    }
+
+    throw error;
+  }
+
+  if (handler instanceof WebhookRouter) {
+    await handler.dispatch(payload);
+  } else {
+    await handler(payload);
+  }
+
+  return { status: 200, body: { received: true } };
+}
+
+/**
+ * Create a webhook handler for Fetch `Request`/`Response` based runtimes
+ *
+ * @param options Adapter options
+ * @returns The request handler
+ */
+export function fetchWebhookHandler(options: WebhookAdapterOptions): FetchWebhookHandler {
+  return async (request) => {
+    const rawBody = new Uint8Array(await request.arrayBuffer());
+    const { status, body } = await handleWebhook(rawBody, request.headers, options);
+
+    return Response.json(body, { status });
+  };
+}
+
+/**
+ * Create a webhook handler for Next.js App Router route handlers
+ *
+ * @example
+ * // app/api/webhooks/lettermint/route.ts
+ * export const POST = nextWebhookHandler({ secret, handler: router });
+ *
+ * @param options Adapter options
+ * @returns The route handler
+ */
+export function nextWebhookHandler(options: WebhookAdapterOptions): FetchWebhookHandler {
+  return fetchWebhookHandler(options);
+}
+
+/**
+ * Create a webhook handler for Hono
+ *
+ * @example
+ * app.post('/webhooks/lettermint', honoWebhookHandler({ secret, handler: router }));
+ *
+ * @param options Adapter options
+ * @returns The Hono handler
+ */
+export function honoWebhookHandler(
+  options: WebhookAdapterOptions
+): (context: { req: { raw: Request } }) => Promise<Response> {
+  const handle = fetchWebhookHandler(options);
+
+  return (context) => handle(context.req.raw);
+}
+
+/**
+ * Create a webhook handler for Node's `http` server, also usable in Next.js
+ * Pages Router API routes with the body parser disabled
+ *
+ * Node ignores the promise of a request listener, so handler errors are
+ * answered with a 500 here and Lettermint retries the delivery.
+ *
+ * @param options Adapter options
+ * @returns The request listener
+ */
+export function nodeWebhookHandler(options: WebhookAdapterOptions): NodeWebhookHandler {
+  return async (req, res) => {
+    let result: WebhookResult;
+
+    try {
+      result = await handleNodeRequest(req, options, [req.rawBody, req.body]);
+    } catch {
+      result = { status: 500, body: { error: HANDLER_FAILED_MESSAGE } };
+    }
+
+    sendNodeResponse(res, result);
+  };
+}
+
+/**
+ * Create a webhook handler for Express
+ *
+ * Reads the raw body from the request stream, or from `req.body` when
+ * `express.raw()` ran first. Handler errors are passed to `next`.
+ *
+ * @example
+ * app.post('/webhooks/lettermint', expressWebhookHandler({ secret, handler: router }));
+ *
+ * @param options Adapter options
+ * @returns The Express middleware
+ */
+export function expressWebhookHandler(
+  options: WebhookAdapterOptions
+): (
+  req: Parameters<NodeWebhookHandler>[0],
+  res: ServerResponse,
+  next: (error?: unknown) => void
+) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      sendNodeResponse(res, await handleNodeRequest(req, options, [req.rawBody, req.body]));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Create a webhook handler for Fastify
+ *
+ * Fastify parses JSON bodies by default; register a buffer content type parser
+ * for the route so the signature can be checked against the raw body:
+ *
+ * @example
+ * app.addContentTypeParser('application/json', { parseAs: 'buffer' }, (req, body, done) =>
+ *   done(null, body)
+ * );
+ * app.post('/webhooks/lettermint', fastifyWebhookHandler({ secret, handler: router }));
+ *
+ * @param options Adapter options
+ * @returns The Fastify route handler
+ */
+export function fastifyWebhookHandler(
+  options: WebhookAdapterOptions
+): (
+  request: { raw: IncomingMessage; body?: unknown; rawBody?: unknown },
+  reply: { code(status: number): { send(body: unknown): unknown } }
+) => Promise<unknown> {
+  return async (request, reply) => {
+    const { status, body } = await handleNodeRequest(request.raw, options, [
+      request.rawBody,
+      request.body,
+    ]);
+
+    return reply.code(status).send(body);
+  };
+}
+
+function sendNodeResponse(res: ServerResponse, { status, body }: WebhookResult): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+async function handleNodeRequest(
+  req: IncomingMessage,
+  options: WebhookAdapterOptions,
+  buffered: unknown[]
+): Promise<WebhookResult> {
+  const rawBody = await readRawBody(req, buffered);
+
+  if (rawBody === undefined) {
+    return { status: 500, body: { error: PARSED_BODY_MESSAGE } };
+  }
+
+  return handleWebhook(rawBody, req.headers, options);
+}
+
+/**
+ * Read the raw body, preferring a body a framework already buffered
+ *
+ * @param req The incoming request
+ * @param buffered Bodies a framework may have read from the stream, e.g. `req.body`
+ * @returns The raw body, or undefined when the stream was consumed by a body parser
+ */
+async function readRawBody(
+  req: IncomingMessage,
+  buffered: unknown[]
+): Promise<string | Uint8Array | undefined> {
+  const body = buffered.find(
+    (candidate) => typeof candidate === 'string' || candidate instanceof Uint8Array
+  );
+
+  if (body !== undefined) {
+    return body as string | Uint8Array;
+  }
+
+  if (req.readableEnded) {
+    return undefined;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,109 @@
+import { UnknownWebhookEventError, WebhookPayloadError } from '../utils/errors';
+import { type WebhookPayload, WebhookRouter, parseWebhookPayload } from './events';
+
+describe('parseWebhookPayload', () => {
+  const bounce = {
+    id: 'evt_123',
+    event: 'message.hard_bounced',
+    timestamp: '2026-01-01T12:00:00Z',
+    data: {
+      message_id: 'msg_123',
+      recipient: 'john@example.com',
+      subject: 'Hello',
+      tag: null,
+      metadata: null,
+      response: { status_code: 550, enhanced_status_code: '5.1.1', content: 'No such user' },
+      reason: 'Mailbox does not exist',
+    },
+  };
+
+  it('should parse raw JSON and already parsed objects', () => {
+    expect(parseWebhookPayload(JSON.stringify(bounce))).toEqual(bounce);
+    expect(parseWebhookPayload(bounce)).toBe(bounce);
+  });
+
+  it('should narrow the payload on the event name', () => {
+    const payload = parseWebhookPayload(bounce);
+
+    if (payload.event !== 'message.hard_bounced') {
+      throw new Error('Expected a hard bounce');
+    }
+
+    expect(payload.data.reason).toBe('Mailbox does not exist');
+  });
+
+  it('should throw a typed error for unknown events', () => {
+    const future = { ...bounce, event: 'message.teleported' };
+    const error = (() => {
+      try {
+        parseWebhookPayload(future);
+      } catch (caught) {
+        return caught as UnknownWebhookEventError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(UnknownWebhookEventError);
+    expect(error).toBeInstanceOf(WebhookPayloadError);
+    expect(error?.event).toBe('message.teleported');
+    expect(error?.payload).toBe(future);
+  });
+
+  it('should reject bodies that are not webhook payloads', () => {
+    expect(() => parseWebhookPayload('not json')).toThrow(
+      new WebhookPayloadError('Webhook body is not valid JSON')
+    );
+    expect(() => parseWebhookPayload([])).toThrow('Webhook body is not an object');
+    expect(() => parseWebhookPayload({ id: 'evt_1' })).toThrow(
+      'Webhook body is missing the event name'
+    );
+    expect(() => parseWebhookPayload({ ...bounce, data: undefined })).toThrow(
+      'Webhook body is missing the event data'
+    );
+  });
+});
+
+describe('WebhookRouter', () => {
+  const payload: WebhookPayload = {
+    id: 'evt_123',
+    event: 'webhook.test',
+    timestamp: '2026-01-01T12:00:00Z',
+    data: { webhook_id: 'wh_123', message: 'Test' },
+  };
+
+  it('should run event handlers in order before catch-all handlers', async () => {
+    const calls: string[] = [];
+    const router = new WebhookRouter()
+      .onAny(() => {
+        calls.push('any');
+      })
+      .on('webhook.test', async ({ data }) => {
+        calls.push(`first ${data.webhook_id}`);
+      })
+      .on('webhook.test', () => {
+        calls.push('second');
+      })
+      .on('message.delivered', () => {
+        calls.push('delivered');
+      });
+
+    await expect(router.dispatch(payload)).resolves.toBe(true);
+    expect(calls).toEqual(['first wh_123', 'second', 'any']);
+  });
+
+  it('should resolve to false when no handler is registered for the event', async () => {
+    const router = new WebhookRouter().on('message.delivered', jest.fn());
+
+    await expect(router.dispatch(JSON.stringify(payload))).resolves.toBe(false);
+  });
+
+  it('should reject unknown events and propagate handler errors', async () => {
+    const router = new WebhookRouter().on('webhook.test', () => {
+      throw new Error('Handler failed');
+    });
+
+    await expect(router.dispatch({ ...payload, event: 'unknown' })).rejects.toBeInstanceOf(
+      UnknownWebhookEventError
+    );
+    await expect(router.dispatch(payload)).rejects.toThrow('Handler failed');
+  });
+});
@@ -0,0 +1,264 @@
+import type { WebhookEvent } from '../types';
+import { UnknownWebhookEventError, WebhookPayloadError } from '../utils/errors';
+
+/**
+ * Data shared by all outbound message events
+ */
+export interface MessageWebhookData {
+  message_id: string;
+  recipient: string;
+  subject: string | null;
+  tag: string | null;
+  metadata: Record<string, string> | null;
+}
+
+/**
+ * SMTP response from the receiving mail server
+ */
+export interface SmtpResponse {
+  status_code: number | null;
+  enhanced_status_code: string | null;
+  content: string | null;
+}
+
+export interface MessageDeliveredWebhookData extends MessageWebhookData {
+  response: SmtpResponse | null;
+}
+
+export interface MessageBouncedWebhookData extends MessageWebhookData {
+  response: SmtpResponse | null;
+  reason: string | null;
+}
+
+export interface MessageRejectedWebhookData extends MessageWebhookData {
+  reason: string | null;
+}
+
+export interface MessageOpenedWebhookData extends MessageWebhookData {
+  ip: string | null;
+  user_agent: string | null;
+}
+
+export interface MessageClickedWebhookData extends MessageOpenedWebhookData {
+  url: string;
+}
+
+export interface InboundAttachmentWebhookData {
+  filename: string;
+  content: string;
+  content_type: string;
+  content_id: string | null;
+  size: number;
+}
+
+export interface MessageInboundWebhookData {
+  message_id: string;
+  route_id: string;
+  from: { email: string; name: string | null };
+  to: { email: string; name: string | null }[];
+  cc: { email: string; name: string | null }[];
+  reply_to: string | null;
+  subject: string | null;
+  html: string | null;
+  text: string | null;
+  headers: Record<string, string>;
+  attachments: InboundAttachmentWebhookData[];
+  spam_score: number | null;
+}
+
+export interface WebhookTestWebhookData {
+  webhook_id: string;
+  message: string;
+}
+
+/**
+ * Event data keyed by webhook event name
+ */
+export interface WebhookEventDataMap {
+  'message.created': MessageWebhookData;
+  'message.sent': MessageWebhookData;
+  'message.delivered': MessageDeliveredWebhookData;
+  'message.auto_replied': MessageWebhookData;
+  'message.hard_bounced': MessageBouncedWebhookData;
+  'message.soft_bounced': MessageBouncedWebhookData;
+  'message.spam_complaint': MessageWebhookData;
+  'message.failed': MessageRejectedWebhookData;
+  'message.suppressed': MessageRejectedWebhookData;
+  'message.unsubscribed': MessageWebhookData;
+  'message.opened': MessageOpenedWebhookData;
+  'message.clicked': MessageClickedWebhookData;
+  'message.inbound': MessageInboundWebhookData;
+  'message.policy_rejected': MessageRejectedWebhookData;
+  'webhook.test': WebhookTestWebhookData;
+}
+
+/**
+ * Payload of a webhook request, narrowed on `event`
+ *
+ * @example
+ * if (payload.event === 'message.hard_bounced') {
+ *   console.log(payload.data.reason);
+ * }
+ */
+export type WebhookPayload<E extends WebhookEvent = WebhookEvent> = {
+  [K in E]: {
+    /**
+     * Unique id of the event
+     */
+    id: string;
+
+    /**
+     * Name of the event
+     */
+    event: K;
+
+    /**
+     * Moment the event occurred, as an ISO 8601 string
+     */
+    timestamp: string;
+
+    /**
+     * Event-specific data
+     */
+    data: WebhookEventDataMap[K];
+  };
+}[E];
+
+export type WebhookHandler<E extends WebhookEvent = WebhookEvent> = (
+  payload: WebhookPayload<E>
+) => void | Promise<void>;
+
+const KNOWN_EVENTS: Record<WebhookEvent, true> = {
+  'message.created': true,
+  'message.sent': true,
+  'message.delivered': true,
+  'message.auto_replied': true,
+  'message.hard_bounced': true,
+  'message.soft_bounced': true,
+  'message.spam_complaint': true,
+  'message.failed': true,
+  'message.suppressed': true,
+  'message.unsubscribed': true,
+  'message.opened': true,
+  'message.clicked': true,
+  'message.inbound': true,
+  'message.policy_rejected': true,
+  'webhook.test': true,
+};
+
+/**
+ * Check whether an event name is one the SDK knows about
+ *
+ * @param event The event name
+ * @returns Whether the event is a known webhook event
+ */
+export function isWebhookEvent(event: unknown): event is WebhookEvent {
+  return typeof event === 'string' && Object.prototype.hasOwnProperty.call(KNOWN_EVENTS, event);
+}
+
+/**
+ * Narrow a raw webhook body into a typed payload
+ *
+ * @param input The raw JSON body, or the already parsed object
+ * @returns The typed payload
+ * @throws WebhookPayloadError When the body is not a webhook payload
+ * @throws UnknownWebhookEventError When the event is not known to this SDK version
+ */
+export function parseWebhookPayload(input: unknown): WebhookPayload {
+  let payload = input;
+
+  if (typeof input === 'string') {
+    try {
+      payload = JSON.parse(input);
+    } catch {
+      throw new WebhookPayloadError('Webhook body is not valid JSON');
+    }
+  }
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new WebhookPayloadError('Webhook body is not an object');
+  }
+
+  const { id, event, timestamp, data } = payload as Record<string, unknown>;
+
+  if (typeof event !== 'string') {
+    throw new WebhookPayloadError('Webhook body is missing the event name');
+  }
+
+  if (!isWebhookEvent(event)) {
+    throw new UnknownWebhookEventError(event, payload);
+  }
+
+  if (typeof id !== 'string' || typeof timestamp !== 'string') {
+    throw new WebhookPayloadError('Webhook body is missing the event id or timestamp');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new WebhookPayloadError('Webhook body is missing the event data');
+  }
+
+  return payload as WebhookPayload;
+}
+
+/**
+ * Dispatches webhook payloads to handlers registered per event
+ *
+ * Handlers for the event run in registration order, followed by catch-all handlers.
+ *
+ * @example
+ * const router = new WebhookRouter()
+ *   .on('message.hard_bounced', async ({ data }) => suppress(data.recipient))
+ *   .onAny((payload) => console.log(payload.event));
+ *
+ * await router.dispatch(Webhook.verify(body, headers, secret));
+ */
+export class WebhookRouter {
+  private readonly handlers = new Map<WebhookEvent, WebhookHandler[]>();
+  private readonly fallbacks: WebhookHandler[] = [];
+
+  /**
+   * Register a handler for an event
+   *
+   * @param event The event name
+   * @param handler Handler receiving the typed payload
+   * @returns The router for chaining
+   */
+  public on<E extends WebhookEvent>(event: E, handler: WebhookHandler<E>): this {
+    const handlers = this.handlers.get(event) ?? [];
+    handlers.push(handler as WebhookHandler);
+    this.handlers.set(event, handlers);
+
+    return this;
+  }
+
+  /**
+   * Register a handler for every event
+   *
+   * @param handler Handler receiving the typed payload
+   * @returns The router for chaining
+   */
+  public onAny(handler: WebhookHandler): this {
+    this.fallbacks.push(handler);
+
+    return this;
+  }
+
+  /**
+   * Run the handlers registered for a payload
+   *
+   * @param input The verified payload, or a raw body to parse
+   * @returns Whether any handler ran
+   * @throws WebhookPayloadError When the body is not a webhook payload
+   * @throws UnknownWebhookEventError When the event is not known to this SDK version
+   */
+  public async dispatch(input: unknown): Promise<boolean> {
+    const payload = parseWebhookPayload(input);
+    const handlers = [...(this.handlers.get(payload.event) ?? []), ...this.fallbacks];
+
+    for (const handler of handlers) {
+      await handler(payload);
+    }
+
+    return handlers.length > 0;
+  }
+}
@@ -0,0 +1,87 @@
+import { WebhookSignatureError } from '../utils/errors';
+import { Webhook } from './webhook';
+
+describe('Webhook', () => {
+  const secret = 'whsec_test';
+  const now = new Date('2026-01-01T12:00:00Z');
+  const payload = {
+    id: 'evt_123',
+    event: 'message.delivered',
+    timestamp: '2026-01-01T12:00:00Z',
+    data: { message_id: 'msg_123' },
+  };
+  const body = JSON.stringify(payload);
+
+  it('should verify a signed request and return the payload', () => {
+    const headers = { 'x-lettermint-signature': Webhook.sign(body, secret, now) };
+
+    expect(Webhook.verify(body, headers, secret, { now })).toEqual(payload);
+  });
+
+  it('should accept Buffer bodies and Fetch headers', () => {
+    const headers = new Headers({ 'X-Lettermint-Signature': Webhook.sign(body, secret, now) });
+
+    expect(new Webhook(secret, { now }).verify(Buffer.from(body), headers)).toEqual(payload);
+  });
+
+  it('should sign the raw bytes of Buffer bodies', () => {
+    // Both invalid bytes decode to U+FFFD, so only the raw bytes tell them apart
+    const [head, tail] = body.split('msg_123');
+    const bytes = (byte: number) =>
+      Buffer.concat([Buffer.from(`${head}msg_`), Buffer.from([byte]), Buffer.from(tail)]);
+    const headers = { 'x-lettermint-signature': Webhook.sign(bytes(0xff), secret, now) };
+
+    expect(Webhook.verify(bytes(0xff), headers, secret, { now })).toMatchObject({
+      data: { message_id: 'msg_\ufffd' },
+    });
+    expect(() => Webhook.verify(bytes(0xfe), headers, secret, { now })).toThrow(
+      new WebhookSignatureError('Webhook signature does not match')
+    );
+  });
+
+  it('should accept any matching signature during secret rotation', () => {
+    const rotated = Webhook.sign(body, secret, now).replace('v1=', 'v1=deadbeef,v1=');
+
+    expect(Webhook.verify(body, { 'X-Lettermint-Signature': rotated }, secret, { now })).toEqual(
+      payload
+    );
+  });
+
+  it('should reject a tampered body', () => {
+    const headers = { 'x-lettermint-signature': Webhook.sign(body, secret, now) };
+
+    expect(() =>
+      Webhook.verify(body.replace('msg_123', 'msg_456'), headers, secret, { now })
+    ).toThrow(new WebhookSignatureError('Webhook signature does not match'));
+  });
+
+  it('should reject a signature made with another secret', () => {
+    const headers = { 'x-lettermint-signature': Webhook.sign(body, 'other', now) };
+
+    expect(() => Webhook.verify(body, headers, secret, { now })).toThrow(WebhookSignatureError);
+  });
+
+  it('should reject signatures outside the tolerance window', () => {
+    const headers = {
+      'x-lettermint-signature': Webhook.sign(body, secret, new Date(now.getTime() - 301_000)),
+    };
+
+    expect(() => Webhook.verify(body, headers, secret, { now })).toThrow(
+      'Webhook timestamp is outside the tolerance window'
+    );
+    expect(Webhook.verify(body, headers, secret, { now, tolerance: 600 })).toEqual(payload);
+  });
+
+  it('should reject missing and malformed signature headers', () => {
+    expect(() => Webhook.verify(body, {}, secret, { now })).toThrow(
+      'Missing X-Lettermint-Signature header'
+    );
+    expect(() =>
+      Webhook.verify(body, { 'x-lettermint-signature': 'v1=abc' }, secret, { now })
+    ).toThrow('Malformed X-Lettermint-Signature header');
+  });
+
+  it('should require a secret', () => {
+    expect(() => Webhook.verify(body, {}, '')).toThrow('Webhook secret is required');
+  });
+});